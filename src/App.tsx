@@ -1,71 +1,249 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { Send, Settings, Zap, User, Bot, Loader2, AlertCircle, CheckCircle, Copy, RefreshCw, Shield, Code } from 'lucide-react'
-import ReactMarkdown from 'react-markdown'
-
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: number
-}
-
-interface ProviderSettings {
-  provider: 'ollama' | 'lmstudio'
-  baseUrl: string
-  model: string
-}
+import React, { useState, useEffect, useRef, useMemo } from 'react'
+import { Settings, PanelLeft, Zap, Bot, Loader2, AlertCircle, CheckCircle, RefreshCw, Shield, Code, BookOpen, HardDrive, Activity, Swords, Search, Library, Lock, KeyRound } from 'lucide-react'
+import { buildRequestMessages, ERROR_PREFIX, estimateTokens, getHistoryBudget, RESPONSE_TOKEN_RESERVE } from './utils/history'
+import { ArenaContestant, ChatTurn, Conversation, Message, ToolCall, ToolInvocation, ProviderSettings, ModelInfo, ProviderId, GenerationParameters, ParameterPreset, PromptTemplate, ServerProfile, ImageAttachment, Citation, KnowledgeDocument, KnowledgeSettings, PersistedState, SecuritySettings } from './types'
+import { ChatUsage, getProvider, providerList } from './providers'
+import { builtinPresets, builtinTemplates, defaultKnowledgeSettings, defaultParameters, defaultSecuritySettings, defaultSettings } from './settings'
+import { changePassphrase, disableEncryption, enableEncryption, isEncryptionEnabled, loadState, lockState, saveState, unlockState, wipeAllData } from './storage'
+import { createConversation, createId, DEFAULT_TITLE, generateTitle } from './utils/conversations'
+import { buildChildrenIndex, findLatestLeaf, getSiblings, getThread } from './utils/tree'
+import { createPreset } from './utils/presets'
+import { extractVariables } from './utils/templates'
+import { buildCommands, CommandAction, CommandSuggestion, findCommand } from './utils/commands'
+import { parseSchema } from './utils/jsonSchema'
+import { applySummary, buildSummaryRequest, estimateContext, findSummary, needsCompaction, selectForCompaction } from './utils/compaction'
+import { buildMetrics, ResponseTiming } from './utils/metrics'
+import { createContestant, getArenaRound, MIN_CONTESTANTS, toContestantSettings } from './utils/arena'
+import { applyProfile, checkProfile, isConnectionChange, ProfileHealth, profileFromSettings } from './utils/profiles'
+import { DENIED_RESULT, expireToolInvocations, findTool, getAvailableTools, MAX_TOOL_ROUNDS, runToolCall, toToolDefinitions } from './tools'
+import Sidebar from './components/Sidebar'
+import ParametersPanel from './components/ParametersPanel'
+import ExportMenu from './components/ExportMenu'
+import { messageBus, EditorContext } from './bridge'
+import { commandPrompts } from './utils/context'
+import Composer from './components/Composer'
+import KnowledgePanel, { IndexingProgress } from './components/KnowledgePanel'
+import MessageItem from './components/MessageItem'
+import ModelManagerPanel from './components/ModelManagerPanel'
+import MetricsPanel from './components/MetricsPanel'
+import ArenaPanel from './components/ArenaPanel'
+import ArenaView from './components/ArenaView'
+import DiagnosticsPanel from './components/DiagnosticsPanel'
+import SearchPanel from './components/SearchPanel'
+import TemplatesPanel from './components/TemplatesPanel'
+import TemplateForm from './components/TemplateForm'
+import StructuredOutputBar from './components/StructuredOutputBar'
+import ContextMeter from './components/ContextMeter'
+import SummaryCard from './components/SummaryCard'
+import ProfileSwitcher from './components/ProfileSwitcher'
+import ProfilesPanel from './components/ProfilesPanel'
+import LockScreen from './components/LockScreen'
+import SecurityPanel from './components/SecurityPanel'
+import { diagnoseFailure, Diagnosis } from './providers/diagnostics'
+import { getFirstTokenTimeout, HEALTH_POLL_INTERVAL, HEALTH_RETRY_DELAY, HEALTH_RETRY_MAX_DELAY, STREAM_IDLE_TIMEOUT } from './providers/http'
+import { createWatchdog } from './utils/stream'
+import { formatBytes } from './utils/format'
+import { createSearchIndex } from './search'
+import { buildKnowledgePrompt, deleteDocument, indexDocument, loadDocuments, saveDocument, searchKnowledge } from './knowledge'
 
-interface ModelInfo {
-  name: string
-  size?: string
-  modified_at?: string
-}
-
-const defaultSettings: ProviderSettings = {
-  provider: 'ollama',
-  baseUrl: 'http://localhost:11434',
-  model: 'llama2'
-}
-
-declare global {
-  interface Window {
-    acquireVsCodeApi: () => {
-      postMessage: (message: any) => void
-      setState: (state: any) => void
-      getState: () => any
-    }
-  }
-}
+// How often idle time is compared against the auto-lock setting
+const AUTO_LOCK_CHECK_INTERVAL = 15 * 1000
 
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([])
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [customPresets, setCustomPresets] = useState<ParameterPreset[]>([])
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>([])
+  const [profiles, setProfiles] = useState<ServerProfile[]>([])
+  const [profileHealth, setProfileHealth] = useState<Record<string, ProfileHealth>>({})
+  const [showProfiles, setShowProfiles] = useState(false)
+  const [security, setSecurity] = useState<SecuritySettings>(defaultSecuritySettings)
+  const [isEncrypted, setIsEncrypted] = useState(false)
+  const [isLocked, setIsLocked] = useState(false)
+  const [showSecurity, setShowSecurity] = useState(false)
+  const [isHydrated, setIsHydrated] = useState(false)
+  const [showSidebar, setShowSidebar] = useState(true)
   const [inputValue, setInputValue] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const [settings, setSettings] = useState<ProviderSettings>(defaultSettings)
+  const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('disconnected')
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([])
   const [isLoadingModels, setIsLoadingModels] = useState(false)
-  const [vscode] = useState(() => {
-    if (typeof window !== 'undefined' && window.acquireVsCodeApi) {
-      return window.acquireVsCodeApi()
-    }
-    return null
-  })
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [attachedContext, setAttachedContext] = useState<EditorContext | null>(null)
+  const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([])
+  const [modelCapabilities, setModelCapabilities] = useState<string[] | null>(null)
+  const [knowledge, setKnowledge] = useState<KnowledgeSettings>(defaultKnowledgeSettings)
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
+  const [showKnowledge, setShowKnowledge] = useState(false)
+  const [showModelManager, setShowModelManager] = useState(false)
+  const [showMetrics, setShowMetrics] = useState(false)
+  const [showArena, setShowArena] = useState(false)
+  const [arenaMode, setArenaMode] = useState(false)
+  const [arena, setArena] = useState<ArenaContestant[]>([])
+  // Number of contestants in the arena round that is streaming, 0 otherwise
+  const [arenaSize, setArenaSize] = useState(0)
+  const [diagnosis, setDiagnosis] = useState<Diagnosis | null>(null)
+  const [healthFailures, setHealthFailures] = useState(0)
+  const [lastHealthCheck, setLastHealthCheck] = useState<number | null>(null)
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
+  const [pullRequest, setPullRequest] = useState<string | null>(null)
+  const [showSearch, setShowSearch] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  // The template whose placeholders are being filled in above the composer
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null)
+  // A search result to scroll to and flash once its conversation is shown
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
+  const [searchIndex] = useState(createSearchIndex)
+  const [isCompacting, setIsCompacting] = useState(false)
+  const [showReplaced, setShowReplaced] = useState(false)
+  const [indexing, setIndexing] = useState<IndexingProgress | null>(null)
+  const [knowledgeError, setKnowledgeError] = useState<string | null>(null)
+  const [retrievalNotice, setRetrievalNotice] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const toolApprovalsRef = useRef(new Map<string, (approved: boolean) => void>())
+  const lastActivityRef = useRef(Date.now())
+  // The idle timer outlives renders, so it reaches the latest state through this ref
+  const autoLockRef = useRef<() => void>(() => {})
+  // Likewise for the health poll, which must always check the server currently selected
+  const healthCheckRef = useRef<() => void>(() => {})
+  const connectionRef = useRef('')
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || null
+  const childrenIndex = useMemo(() => buildChildrenIndex(activeConversation?.messages || []), [activeConversation?.messages])
+  const messages = useMemo(
+    () => getThread(activeConversation?.messages || [], activeConversation?.activeLeafId ?? null),
+    [activeConversation?.messages, activeConversation?.activeLeafId]
+  )
+  const settings = activeConversation?.settings || defaultSettings
+  const parameters = activeConversation?.parameters || defaultParameters
+  const presets = [...builtinPresets, ...customPresets]
+  const templates = [...builtinTemplates, ...customTemplates]
+  const commands = useMemo(
+    () => buildCommands([...builtinTemplates, ...customTemplates], availableModels.map(m => m.name)),
+    [customTemplates, availableModels]
+  )
+  const lastMessage = messages[messages.length - 1]
+  // An arena round is shown until a winner is picked, which moves the leaf onto that reply
+  const arenaRound = lastMessage?.role === 'user' ? getArenaRound(childrenIndex, lastMessage) : []
+  const isArenaStreaming = arenaSize > 0 && loadingConversationId === activeConversationId
+  const isLoading = loadingConversationId !== null
+  // Only a server that did not answer at all holds messages back; HTTP errors still let them through
+  const isOffline = connectionStatus === 'disconnected' && diagnosis !== null && !diagnosis.reachable
+  const summary = useMemo(() => findSummary(activeConversation?.summaries, messages), [activeConversation?.summaries, messages])
+  const coveredIds = useMemo(() => new Set(summary?.coveredIds), [summary])
+  const contextUsage = useMemo(() => {
+    const usage = estimateContext(messages, parameters, settings.contextTokens, summary)
+    return { ...usage, used: usage.used + estimateTokens(inputValue) }
+  }, [messages, parameters, settings.contextTokens, summary, inputValue])
+  const schemaError = activeConversation?.structuredOutput ? parseSchema(activeConversation.structuredOutput.schema).error : undefined
+  const visionWarning = pendingImages.length > 0 && modelCapabilities && !modelCapabilities.includes('vision')
+    ? `${settings.model} does not advertise vision support, so the images may be ignored.`
+    : null
+
+  // Everything that gets persisted, in the shape `saveState` takes
+  const persistedState: Omit<PersistedState, 'version'> = {
+    conversations,
+    activeConversationId,
+    settings,
+    presets: customPresets,
+    knowledge,
+    arena,
+    templates: customTemplates,
+    profiles,
+    security
+  }
+
+  const hydrate = (savedState: PersistedState | null) => {
+    setCustomPresets(savedState?.presets || [])
+    setCustomTemplates(savedState?.templates || [])
+    setKnowledge(savedState?.knowledge || defaultKnowledgeSettings)
+    setArena(savedState?.arena || [])
+    setProfiles(savedState?.profiles || [])
+    setSecurity(savedState?.security || defaultSecuritySettings)
+    setIsEncrypted(isEncryptionEnabled())
+    const savedConversations = savedState?.conversations || []
+    if (savedConversations.length > 0) {
+      setConversations(savedConversations)
+      setActiveConversationId(
+        savedConversations.find(c => c.id === savedState?.activeConversationId)?.id || savedConversations[0].id
+      )
+    } else {
+      const conversation = createConversation(savedState?.settings || defaultSettings)
+      setConversations([conversation])
+      setActiveConversationId(conversation.id)
+    }
+    setIsHydrated(true)
+    loadDocuments()
+      .then(setDocuments)
+      .catch(() => setDocuments([]))
+  }
 
   useEffect(() => {
-    if (vscode) {
-      const savedState = vscode.getState()
-      if (savedState) {
-        setMessages(savedState.messages || [])
-        setSettings(savedState.settings || defaultSettings)
-      }
+    // Only an encrypted state rejects, and it waits for the passphrase on the lock screen
+    loadState()
+      .then(hydrate)
+      .catch(() => setIsLocked(true))
+    return () => {
+      abortControllerRef.current?.abort()
     }
-    testConnection()
   }, [])
 
+  useEffect(() => {
+    const unsubscribe = messageBus.subscribe((message) => {
+      switch (message.type) {
+        case 'editorContext':
+          setAttachedContext(message.context)
+          break
+        case 'runCommand':
+          setAttachedContext(message.context)
+          setInputValue(commandPrompts[message.command])
+          setTimeout(() => inputRef.current?.focus(), 100)
+          break
+      }
+    })
+    messageBus.post({ type: 'ready' })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!isHydrated) return
+    setAvailableModels([])
+    setHealthFailures(0)
+    setDiagnosis(null)
+    testConnection()
+  }, [settings.provider, settings.baseUrl, settings.profileId, isHydrated])
+
+  // Background health polling: a steady interval while connected, exponential backoff while down
+  useEffect(() => {
+    if (!isHydrated || lastHealthCheck === null) return
+    const delay = connectionStatus === 'connected'
+      ? HEALTH_POLL_INTERVAL
+      : Math.min(HEALTH_RETRY_DELAY * 2 ** Math.max(healthFailures - 1, 0), HEALTH_RETRY_MAX_DELAY)
+    const timer = setTimeout(() => healthCheckRef.current(), delay)
+    return () => clearTimeout(timer)
+  }, [lastHealthCheck, isHydrated])
+
+  // Sends messages typed while offline once the server is back, one conversation at a time
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || isLoading) return
+    const conversation = conversations.find(c => c.messages.some(m => m.queued))
+    if (!conversation) return
+    const thread = getThread(conversation.messages, conversation.activeLeafId).map(m => m.queued ? { ...m, queued: undefined } : m)
+    updateConversation(conversation.id, c => ({ ...c, messages: c.messages.map(m => m.queued ? { ...m, queued: undefined } : m) }))
+    // Only a queued prompt at the end of the visible thread still waits for an answer
+    const lastQueued = conversation.messages.find(m => m.queued && m.id === conversation.activeLeafId)
+    if (lastQueued?.role === 'user') {
+      if (arenaMode && arena.length >= MIN_CONTESTANTS) {
+        generateArenaReplies(conversation, thread)
+      } else {
+        generateReply(conversation, thread, conversation.settings.model)
+      }
+    }
+  }, [connectionStatus, isLoading, conversations])
+
   useEffect(() => {
     if (connectionStatus === 'connected' && availableModels.length === 0) {
       loadAvailableModels()
@@ -73,75 +251,86 @@ const App: React.FC = () => {
   }, [settings.provider, connectionStatus, availableModels.length])
 
   useEffect(() => {
-    if (vscode) {
-      vscode.setState({
-        messages,
-        settings
-      })
+    if (!isHydrated) return
+    const timer = setTimeout(() => {
+      saveState(persistedState)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [conversations, activeConversationId, customPresets, knowledge, arena, customTemplates, profiles, security, isHydrated])
+
+  // Auto-lock: any input counts as activity, and so does a reply that is still streaming
+  useEffect(() => {
+    if (!isEncrypted || !isHydrated || security.autoLockMinutes <= 0) return
+    const markActive = () => {
+      lastActivityRef.current = Date.now()
+    }
+    markActive()
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel']
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }))
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= security.autoLockMinutes * 60 * 1000) {
+        autoLockRef.current()
+      }
+    }, AUTO_LOCK_CHECK_INTERVAL)
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive))
+      clearInterval(timer)
+    }
+  }, [isEncrypted, isHydrated, security.autoLockMinutes])
+
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || !settings.model) return
+    let cancelled = false
+    getProvider(settings.provider).getModelCapabilities(settings, settings.model)
+      .then(capabilities => !cancelled && setModelCapabilities(capabilities))
+      .catch(() => !cancelled && setModelCapabilities(null))
+    return () => {
+      cancelled = true
     }
-  }, [messages, settings, vscode])
+  }, [settings.provider, settings.baseUrl, settings.model, connectionStatus])
 
   useEffect(() => {
+    if (focusedMessageId) return
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
   useEffect(() => {
-    if (inputRef.current) {
-      inputRef.current.style.height = 'auto'
-      inputRef.current.style.height = `${Math.min(inputRef.current.scrollHeight, 120)}px`
-    }
-  }, [inputValue])
+    if (!focusedMessageId) return
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: 'center' })
+    const timer = setTimeout(() => setFocusedMessageId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [focusedMessageId, activeConversationId])
+
+  const updateConversation = (id: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => c.id === id ? update(c) : c))
+  }
+
+  // Adds a message below its parent and, unless `select` is false, makes it the visible leaf
+  const appendMessage = (id: string, message: Message, select = true) => {
+    updateConversation(id, c => ({
+      ...c,
+      messages: [...c.messages, message],
+      activeLeafId: select ? message.id : c.activeLeafId,
+      updatedAt: Date.now()
+    }))
+  }
+
+  const updateMessage = (id: string, messageId: string, update: (message: Message) => Message) => {
+    updateConversation(id, c => ({ ...c, messages: c.messages.map(m => m.id === messageId ? update(m) : m), updatedAt: Date.now() }))
+  }
+
+  const setSettings = (update: (prev: ProviderSettings) => ProviderSettings) => {
+    if (!activeConversation) return
+    updateConversation(activeConversation.id, c => ({ ...c, settings: update(c.settings) }))
+  }
 
   const loadAvailableModels = async () => {
     setIsLoadingModels(true)
     try {
-      let response: Response
-      if (settings.provider === 'ollama') {
-        response = await fetch(`${settings.baseUrl}/api/tags`, {
-          method: 'GET',
-          signal: AbortSignal.timeout(5000)
-        })
-      } else {
-        response = await fetch(`${settings.baseUrl}/v1/models`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          mode: 'cors',
-          signal: AbortSignal.timeout(5000)
-        })
-      }
-      if (response.ok) {
-        const data = await response.json()
-        let models: ModelInfo[] = []
-        if (settings.provider === 'ollama') {
-          models = data.models?.map((model: any) => ({
-            name: model.name,
-            size: model.size,
-            modified_at: model.modified_at
-          })) || []
-        } else {
-          if (data.data && Array.isArray(data.data)) {
-            models = data.data.map((model: any) => {
-              return {
-                name: model.id || model.name || 'Unknown Model',
-                size: model.object || model.owned_by || 'model'
-              }
-            })
-          } else if (Array.isArray(data)) {
-            models = data.map((model: any) => ({
-              name: model.id || model.name || 'Unknown Model',
-              size: model.object || model.owned_by || 'model'
-            }))
-          } else {
-            models = []
-          }
-        }
-        setAvailableModels(models)
-        if (models.length > 0 && !models.find(m => m.name === settings.model)) {
-          setSettings(prev => ({ ...prev, model: models[0].name }))
-        }
+      const models = await getProvider(settings.provider).listModels(settings)
+      setAvailableModels(models)
+      if (models.length > 0 && !models.find(m => m.name === settings.model)) {
+        setSettings(prev => ({ ...prev, model: models[0].name }))
       }
     } catch (error) {
       setAvailableModels([])
@@ -150,125 +339,718 @@ const App: React.FC = () => {
     }
   }
 
-  const testConnection = async () => {
-    setConnectionStatus('connecting')
+  // Background checks skip the "connecting" state so polling doesn't make the status light flicker
+  const testConnection = async (background = false) => {
+    if (!background) {
+      setConnectionStatus('connecting')
+    }
+    const connection = `${settings.provider} ${settings.baseUrl}`
+    // A check that ends after the user switched servers says nothing about the new one
+    const isStale = () => connectionRef.current !== connection
     try {
-      let response: Response
-      if (settings.provider === 'ollama') {
-        response = await fetch(`${settings.baseUrl}/api/tags`, {
-          method: 'GET',
-          signal: AbortSignal.timeout(5000)
-        })
-      } else {
-        response = await fetch(`${settings.baseUrl}/v1/models`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          mode: 'cors',
-          signal: AbortSignal.timeout(5000)
+      await getProvider(settings.provider).healthCheck(settings)
+      if (isStale()) return
+      setConnectionStatus('connected')
+      setHealthFailures(0)
+      // Keep problems that a healthy server does not fix, such as a missing model
+      setDiagnosis(prev => prev && !prev.reachable ? null : prev)
+    } catch (error) {
+      const found = await diagnoseFailure(error, settings)
+      if (isStale()) return
+      setConnectionStatus('disconnected')
+      setHealthFailures(count => count + 1)
+      setDiagnosis(found)
+    } finally {
+      if (!isStale()) setLastHealthCheck(Date.now())
+    }
+  }
+
+  connectionRef.current = `${settings.provider} ${settings.baseUrl}`
+  healthCheckRef.current = () => testConnection(true)
+
+  // Resolves once the user allows or denies the call in the chat; stopping the reply counts as a denial
+  const awaitToolApproval = (invocationId: string, signal: AbortSignal) => {
+    return new Promise<boolean>((resolve) => {
+      if (signal.aborted) {
+        resolve(false)
+        return
+      }
+      const settle = (approved: boolean) => {
+        toolApprovalsRef.current.delete(invocationId)
+        signal.removeEventListener('abort', onAbort)
+        resolve(approved)
+      }
+      const onAbort = () => settle(false)
+      signal.addEventListener('abort', onAbort)
+      toolApprovalsRef.current.set(invocationId, settle)
+    })
+  }
+
+  const decideToolCall = (invocationId: string, approved: boolean) => {
+    toolApprovalsRef.current.get(invocationId)?.(approved)
+  }
+
+  // Owns the abort controller and loading state while one or more replies stream
+  const withGeneration = async (conversationId: string, run: (signal: AbortSignal) => Promise<unknown>) => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setLoadingConversationId(conversationId)
+    try {
+      await run(controller.signal)
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+      setStreamingMessageId(null)
+      setLoadingConversationId(null)
+    }
+  }
+
+  /**
+   * Streams an assistant reply to the last message of `thread`, which must
+   * be a user message. The reply becomes a new child of that message, so
+   * regenerating adds a sibling instead of replacing the old reply. Arena
+   * replies carry `arenaId` and stay off the visible thread until one is picked.
+   */
+  const streamReply = async (
+    conversation: Conversation,
+    thread: Message[],
+    requestSettings: ProviderSettings,
+    signal: AbortSignal,
+    arenaId?: string
+  ) => {
+    const conversationId = conversation.id
+    const prompt = thread[thread.length - 1]
+    const { model, provider } = requestSettings
+    const assistantId = createId()
+    let isCreated = false
+    let citations: Citation[] = []
+    let usage: ChatUsage | undefined
+    const timing: ResponseTiming = { startedAt: Date.now(), firstTokenAt: null, finishedAt: 0 }
+    const ensureMessage = () => {
+      if (isCreated) return
+      isCreated = true
+      if (!arenaId) {
+        setStreamingMessageId(assistantId)
+      }
+      appendMessage(conversationId, {
+        id: assistantId,
+        parentId: prompt.id,
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        citations: citations.length > 0 ? citations : undefined,
+        model,
+        provider,
+        baseUrl: arenaId ? requestSettings.baseUrl : undefined,
+        arenaId,
+        outputSchema: conversation.structuredOutput?.schema
+      }, !arenaId)
+    }
+    // Thinking time adds up across tool rounds and ends when the answer starts
+    let reasoningStartedAt: number | null = null
+    const finishReasoning = () => {
+      if (reasoningStartedAt === null) return
+      const elapsed = Date.now() - reasoningStartedAt
+      reasoningStartedAt = null
+      updateMessage(conversationId, assistantId, m => ({ ...m, reasoningDuration: (m.reasoningDuration || 0) + elapsed }))
+    }
+    const appendReasoning = (text: string) => {
+      if (!text) return
+      const now = Date.now()
+      if (timing.firstTokenAt === null) {
+        timing.firstTokenAt = now
+      }
+      if (reasoningStartedAt === null) {
+        reasoningStartedAt = now
+      }
+      ensureMessage()
+      updateMessage(conversationId, assistantId, m => ({ ...m, reasoning: (m.reasoning || '') + text }))
+    }
+    const appendToken = (token: string) => {
+      if (!token) return
+      if (timing.firstTokenAt === null) {
+        timing.firstTokenAt = Date.now()
+      }
+      finishReasoning()
+      ensureMessage()
+      updateMessage(conversationId, assistantId, m => ({ ...m, content: m.content + token }))
+    }
+    const setInvocation = (invocation: ToolInvocation) => {
+      ensureMessage()
+      updateMessage(conversationId, assistantId, m => {
+        const invocations = m.toolInvocations || []
+        return {
+          ...m,
+          toolInvocations: invocations.some(i => i.id === invocation.id)
+            ? invocations.map(i => i.id === invocation.id ? invocation : i)
+            : [...invocations, invocation]
+        }
+      })
+    }
+    // Arena contestants may live on other servers, so only the conversation's own replies move the status light
+    const setStatus = (status: 'connected' | 'disconnected') => {
+      if (!arenaId) setConnectionStatus(status)
+    }
+    // The request gets its own controller so the watchdog can end it without it looking like Stop
+    const requestController = new AbortController()
+    const forwardAbort = () => requestController.abort()
+    signal.addEventListener('abort', forwardAbort)
+    let timeoutError: Error | null = null
+    const watchdog = createWatchdog(getFirstTokenTimeout(requestSettings), () => {
+      timeoutError = new Error('The server stopped responding')
+      timeoutError.name = 'TimeoutError'
+      requestController.abort()
+    })
+    try {
+      let requestMessage = prompt
+      if (conversation.useKnowledge && documents.length > 0) {
+        // Documents were embedded by the conversation's server, so retrieval always goes there
+        try {
+          citations = await searchKnowledge(prompt.content, documents, conversation.settings, knowledge)
+          setRetrievalNotice(null)
+        } catch (error) {
+          // Without sources the model can still answer, so the reply goes ahead
+          setRetrievalNotice(`Knowledge search failed, answering without sources: ${error instanceof Error ? error.message : 'unknown error'}`)
+        }
+        if (citations.length > 0) {
+          requestMessage = { ...prompt, content: buildKnowledgePrompt(citations, prompt.content) }
+        }
+      }
+      // Retrieval time is not part of the model's latency
+      timing.startedAt = Date.now()
+      const summary = findSummary(conversation.summaries, thread)
+      let turns = buildRequestMessages(
+        applySummary([...thread.slice(0, -1), requestMessage], summary),
+        conversation.parameters,
+        requestSettings.contextTokens,
+        summary?.content
+      )
+      const tools = conversation.useTools ? getAvailableTools() : []
+      const format = conversation.structuredOutput ? { schema: parseSchema(conversation.structuredOutput.schema).schema } : undefined
+      // Agent loop: run requested tools, send their results back and repeat until the model answers
+      for (let round = 0; ; round++) {
+        const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS
+        const stream = getProvider(requestSettings.provider).stream(requestSettings, {
+          model,
+          messages: turns,
+          parameters: conversation.parameters,
+          tools: offerTools ? toToolDefinitions(tools) : undefined,
+          format,
+          signal: requestController.signal
         })
+        let roundContent = ''
+        const toolCalls: ToolCall[] = []
+        watchdog.reset()
+        for await (const chunk of stream) {
+          watchdog.reset(STREAM_IDLE_TIMEOUT)
+          setStatus('connected')
+          appendReasoning(chunk.reasoning || '')
+          appendToken(chunk.content)
+          roundContent += chunk.content
+          if (chunk.usage) usage = chunk.usage
+          if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls)
+        }
+        // Waiting for tools, and for the user to approve them, is not the server's fault
+        watchdog.stop()
+        finishReasoning()
+        if (toolCalls.length === 0 || !offerTools) break
+        const toolTurns: ChatTurn[] = []
+        for (const call of toolCalls) {
+          const needsApproval = Boolean(findTool(call.name)?.sideEffects)
+          setInvocation({ ...call, status: needsApproval ? 'awaiting' : 'running' })
+          let invocation: ToolInvocation
+          if (needsApproval && !(await awaitToolApproval(call.id, signal))) {
+            invocation = { ...call, status: 'denied', result: DENIED_RESULT }
+          } else {
+            setInvocation({ ...call, status: 'running' })
+            invocation = await runToolCall(call)
+          }
+          setInvocation(invocation)
+          toolTurns.push({ role: 'tool', content: invocation.result || '', toolCallId: call.id, toolName: call.name })
+        }
+        turns = [...turns, { role: 'assistant', content: roundContent, toolCalls }, ...toolTurns]
       }
-      if (response.ok) {
-        setConnectionStatus('connected')
-      } else {
-        setConnectionStatus('disconnected')
+      if (timing.firstTokenAt === null) {
+        appendToken('No response received')
+      }
+      const metrics = buildMetrics(usage, { ...timing, finishedAt: Date.now() })
+      updateMessage(conversationId, assistantId, m => ({ ...m, metrics }))
+      if (!arenaId) {
+        setDiagnosis(null)
+      }
+    } catch (caught) {
+      if (signal.aborted) return
+      const error = timeoutError || caught
+      const found = await diagnoseFailure(error, requestSettings, model)
+      if (!arenaId) {
+        setDiagnosis(found)
+        if (!found.reachable) setStatus('disconnected')
+      }
+      appendMessage(conversationId, {
+        id: createId(),
+        parentId: prompt.id,
+        role: 'assistant',
+        content: `${ERROR_PREFIX}: ${error instanceof Error ? error.message : 'Unknown error occurred'}\n\n**${found.title}.** ${found.detail}`,
+        timestamp: Date.now(),
+        model,
+        provider,
+        baseUrl: arenaId ? requestSettings.baseUrl : undefined,
+        arenaId
+      }, !arenaId)
+    } finally {
+      watchdog.stop()
+      finishReasoning()
+      updateMessage(conversationId, assistantId, expireToolInvocations)
+      signal.removeEventListener('abort', forwardAbort)
+    }
+  }
+
+  /**
+   * Folds older messages of `thread` into a new summary written by the
+   * conversation's model. Runs before a reply once the history nears the
+   * context length, or right away when `force` is set. Resolves to the
+   * conversation including the new summary; a failed summary only means the
+   * oldest messages get trimmed as before.
+   */
+  const compactConversation = async (conversation: Conversation, thread: Message[], signal: AbortSignal, force = false) => {
+    const current = findSummary(conversation.summaries, thread)
+    const { parameters: requestParameters, settings: requestSettings } = conversation
+    if (!force && !needsCompaction(estimateContext(thread, requestParameters, requestSettings.contextTokens, current))) {
+      return conversation
+    }
+    // The prompt being answered is never part of the summary
+    const candidates = selectForCompaction(force ? thread : thread.slice(0, -1), current, getHistoryBudget(requestParameters, requestSettings.contextTokens))
+    if (candidates.length === 0) return conversation
+    setIsCompacting(true)
+    // A stalled server must not hold up the reply, which then goes out without the new summary
+    const requestController = new AbortController()
+    const forwardAbort = () => requestController.abort()
+    signal.addEventListener('abort', forwardAbort)
+    const watchdog = createWatchdog(getFirstTokenTimeout(requestSettings), () => requestController.abort())
+    watchdog.reset()
+    try {
+      const result = await getProvider(requestSettings.provider).chat(requestSettings, {
+        model: requestSettings.model,
+        messages: buildSummaryRequest(current?.content, candidates),
+        parameters: { ...defaultParameters, numCtx: requestParameters.numCtx, keepAlive: requestParameters.keepAlive },
+        signal: requestController.signal
+      })
+      if (!result.content.trim()) return conversation
+      const summary = {
+        id: createId(),
+        content: result.content.trim(),
+        coveredIds: [...(current?.coveredIds || []), ...candidates.map(m => m.id)],
+        model: requestSettings.model,
+        createdAt: Date.now()
       }
+      updateConversation(conversation.id, c => ({ ...c, summaries: [...(c.summaries || []), summary] }))
+      return { ...conversation, summaries: [...(conversation.summaries || []), summary] }
     } catch (error) {
-      setConnectionStatus('disconnected')
+      return conversation
+    } finally {
+      watchdog.stop()
+      signal.removeEventListener('abort', forwardAbort)
+      setIsCompacting(false)
+    }
+  }
+
+  const generateReply = (conversation: Conversation, thread: Message[], model: string) => {
+    return withGeneration(conversation.id, async signal => {
+      const compacted = await compactConversation(conversation, thread, signal)
+      return streamReply(compacted, thread, { ...compacted.settings, model }, signal)
+    })
+  }
+
+  // Sends the same history and parameters to every contestant at once
+  const generateArenaReplies = (conversation: Conversation, thread: Message[]) => {
+    const arenaId = createId()
+    setArenaSize(arena.length)
+    return withGeneration(conversation.id, async signal => {
+      const compacted = await compactConversation(conversation, thread, signal)
+      return Promise.all(arena.map(contestant => {
+        return streamReply(compacted, thread, toContestantSettings(compacted.settings, contestant), signal, arenaId)
+      }))
+    }).finally(() => setArenaSize(0))
+  }
+
+  const compactNow = () => {
+    if (!activeConversation || isLoading) return
+    withGeneration(activeConversation.id, signal => compactConversation(activeConversation, messages, signal, true))
+  }
+
+  // The winner becomes the visible reply and the conversation continues with its model
+  const pickArenaWinner = (message: Message) => {
+    if (!activeConversation || isLoading || !message.arenaId) return
+    // Replies saved before their server was recorded fall back to the first contestant with the same model
+    const contestant = message.provider && message.model && message.baseUrl
+      ? { provider: message.provider, baseUrl: message.baseUrl, model: message.model }
+      : arena.find(c => c.provider === message.provider && c.model === message.model)
+    updateConversation(activeConversation.id, c => ({
+      ...c,
+      messages: c.messages.map(m => m.arenaId === message.arenaId ? { ...m, arenaWinner: m.id === message.id } : m),
+      activeLeafId: message.id,
+      settings: contestant ? toContestantSettings(c.settings, contestant) : c.settings,
+      updatedAt: Date.now()
+    }))
+  }
+
+  const toggleArenaMode = (enabled: boolean) => {
+    if (enabled && arena.length < MIN_CONTESTANTS) {
+      const otherModel = availableModels.find(m => m.name !== settings.model)?.name || settings.model
+      setArena([createContestant(settings), createContestant({ ...settings, model: otherModel })])
     }
+    setArenaMode(enabled)
   }
 
   const sendMessage = async () => {
-    if (!(inputValue.trim()) || isLoading) return
+    if ((!(inputValue.trim()) && pendingImages.length === 0) || isLoading || !activeConversation) return
+    const slashCommand = pendingImages.length === 0 ? findCommand(commands, inputValue) : null
+    if (slashCommand) {
+      setInputValue('')
+      if (slashCommand.command.template) {
+        applyTemplate(slashCommand.command.template)
+      } else {
+        runCommand(slashCommand.command.action!, slashCommand.argument)
+      }
+      return
+    }
+    // The schema editor shows the problem; sending would only get an error back
+    if (schemaError) return
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: createId(),
+      parentId: activeConversation.activeLeafId,
       role: 'user',
       content: inputValue.trim(),
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      context: attachedContext || undefined,
+      attachments: pendingImages.length > 0 ? pendingImages : undefined
+    }
+    appendMessage(activeConversation.id, isOffline ? { ...userMessage, queued: true } : userMessage)
+    if (activeConversation.title === DEFAULT_TITLE && messages.length === 0) {
+      updateConversation(activeConversation.id, c => ({ ...c, title: generateTitle(userMessage.content) }))
     }
-    setMessages(prev => [...prev, userMessage])
     setInputValue('')
-    setIsLoading(true)
+    setAttachedContext(null)
+    setPendingImages([])
     setTimeout(() => inputRef.current?.focus(), 100)
+    if (isOffline) return
+    if (arenaMode && arena.length >= MIN_CONTESTANTS) {
+      await generateArenaReplies(activeConversation, [...messages, userMessage])
+    } else {
+      await generateReply(activeConversation, [...messages, userMessage], settings.model)
+    }
+  }
+
+  // Editing keeps the original: the edited prompt becomes a sibling branch
+  const editMessage = (message: Message, content: string) => {
+    if (isLoading || !activeConversation) return
+    const index = messages.findIndex(m => m.id === message.id)
+    if (index === -1) return
+    const edited: Message = { ...message, id: createId(), content, timestamp: Date.now() }
+    appendMessage(activeConversation.id, edited)
+    generateReply(activeConversation, [...messages.slice(0, index), edited], settings.model)
+  }
+
+  const regenerateMessage = (message: Message, model: string) => {
+    if (isLoading || !activeConversation) return
+    const index = messages.findIndex(m => m.id === message.id)
+    if (index <= 0) return
+    generateReply(activeConversation, messages.slice(0, index), model)
+  }
+
+  // Sends the validation errors back as a user turn and asks again with the reply's original schema
+  const retryJson = (message: Message, feedback: string) => {
+    if (isLoading || !activeConversation) return
+    const index = messages.findIndex(m => m.id === message.id)
+    if (index === -1) return
+    const feedbackMessage: Message = {
+      id: createId(),
+      parentId: message.id,
+      role: 'user',
+      content: feedback,
+      timestamp: Date.now()
+    }
+    appendMessage(activeConversation.id, feedbackMessage)
+    const conversation = { ...activeConversation, structuredOutput: { schema: message.outputSchema ?? '' } }
+    generateReply(conversation, [...messages.slice(0, index + 1), feedbackMessage], message.model || settings.model)
+  }
+
+  const togglePin = (message: Message) => {
+    if (activeConversation) {
+      updateMessage(activeConversation.id, message.id, m => ({ ...m, pinned: !m.pinned || undefined }))
+    }
+  }
+
+  const selectSibling = (message: Message, offset: number) => {
+    if (!activeConversation) return
+    const siblings = getSiblings(childrenIndex, message)
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset]
+    if (!target) return
+    const leafId = findLatestLeaf(childrenIndex, target.id)
+    updateConversation(activeConversation.id, c => ({ ...c, activeLeafId: leafId }))
+  }
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Editing the connection by hand detaches the chat from its profile, like editing parameters does from a preset
+  const updateSettings = (newSettings: Partial<ProviderSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      ...newSettings,
+      profileId: isConnectionChange(newSettings) ? undefined : prev.profileId
+    }))
+  }
+
+  // A base URL the user typed survives a provider change; only the previous default is swapped
+  const changeProvider = (provider: ProviderId) => {
+    const isDefaultUrl = !settings.baseUrl.trim() || settings.baseUrl === getProvider(settings.provider).defaultBaseUrl
+    updateSettings({ provider, baseUrl: isDefaultUrl ? getProvider(provider).defaultBaseUrl : settings.baseUrl })
+  }
+
+  const switchProfile = (profile: ServerProfile) => {
+    setSettings(prev => applyProfile(prev, profile))
+  }
+
+  // Health of every profile at once; each result lands as soon as its server answers
+  const checkProfiles = () => {
+    setProfileHealth(prev => ({
+      ...prev,
+      ...Object.fromEntries(profiles.map(profile => [profile.id, { ...prev[profile.id], status: 'checking' as const }]))
+    }))
+    for (const profile of profiles) {
+      checkProfile(profile).then(health => setProfileHealth(prev => ({ ...prev, [profile.id]: health })))
+    }
+  }
+
+  // Chats using an edited profile follow it to the new server but keep their model
+  const saveProfile = (profile: ServerProfile) => {
+    setProfiles(prev => prev.some(p => p.id === profile.id) ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile])
+    setConversations(prev => prev.map(c => c.settings.profileId === profile.id
+      ? { ...c, settings: { ...applyProfile(c.settings, profile), model: c.settings.model } }
+      : c))
+    checkProfile(profile).then(health => setProfileHealth(prev => ({ ...prev, [profile.id]: health })))
+  }
+
+  const saveCurrentProfile = (name: string) => {
+    const profile = profileFromSettings(name, settings)
+    setProfiles(prev => [...prev, profile])
+    setSettings(prev => ({ ...prev, profileId: profile.id }))
+    setProfileHealth(prev => ({
+      ...prev,
+      [profile.id]: connectionStatus === 'connected' ? { status: 'online', checkedAt: Date.now() } : { status: 'offline', checkedAt: Date.now(), error: diagnosis?.title }
+    }))
+  }
+
+  // Saves first so nothing typed since the last write is lost, then drops every decrypted value from memory
+  const lockApp = async () => {
+    abortControllerRef.current?.abort()
+    setIsHydrated(false)
+    // A failed write must not keep the app unlocked
+    await saveState(persistedState).catch(() => undefined)
+    lockState()
+    searchIndex.sync([])
+    setConversations([])
+    setActiveConversationId(null)
+    setDocuments([])
+    setProfiles([])
+    setCustomPresets([])
+    setCustomTemplates([])
+    setArena([])
+    setInputValue('')
+    setPendingImages([])
+    setAttachedContext(null)
+    setActiveTemplate(null)
+    setIsLocked(true)
+  }
+
+  autoLockRef.current = () => {
+    if (!isLoading) lockApp()
+  }
+
+  const unlock = async (passphrase: string) => {
+    const savedState = await unlockState(passphrase)
+    setIsLocked(false)
+    hydrate(savedState)
+  }
+
+  const turnOnEncryption = async (passphrase: string) => {
+    await enableEncryption(passphrase, persistedState)
+    setIsEncrypted(true)
+  }
+
+  const turnOffEncryption = async (passphrase: string) => {
+    await disableEncryption(passphrase, persistedState)
+    setIsEncrypted(false)
+  }
+
+  const panicWipe = async () => {
+    abortControllerRef.current?.abort()
+    // Stops the pending write of the old state before anything is erased
+    setIsHydrated(false)
     try {
-      let response: Response
-      if (settings.provider === 'ollama') {
-        response = await fetch(`${settings.baseUrl}/api/generate`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: settings.model,
-            prompt: userMessage.content,
-            stream: false
-          })
+      await wipeAllData()
+    } catch (error) {
+      // Shows what is left so the app stays usable and the wipe can be tried again
+      await loadState()
+        .then((savedState) => {
+          setIsLocked(false)
+          hydrate(savedState)
         })
-      } else {
-        response = await fetch(`${settings.baseUrl}/v1/chat/completions`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          mode: 'cors',
-          body: JSON.stringify({
-            model: settings.model,
-            messages: [
-              { role: 'user', content: userMessage.content }
-            ],
-            stream: false
-          })
+        .catch(() => setIsLocked(true))
+      throw new Error(`Could not erase all data: ${error instanceof Error ? error.message : 'storage error'}`)
+    }
+    searchIndex.sync([])
+    setIsLocked(false)
+    setShowSecurity(false)
+    hydrate(null)
+  }
+
+  const deleteProfile = (id: string) => {
+    setProfiles(prev => prev.filter(p => p.id !== id))
+    setConversations(prev => prev.map(c => c.settings.profileId === id ? { ...c, settings: { ...c.settings, profileId: undefined } } : c))
+  }
+
+  const updateParameters = (newParameters: Partial<GenerationParameters>) => {
+    if (!activeConversation) return
+    updateConversation(activeConversation.id, c => ({
+      ...c,
+      parameters: { ...c.parameters, ...newParameters },
+      presetId: undefined
+    }))
+  }
+
+  const applyPreset = (preset: ParameterPreset) => {
+    if (!activeConversation) return
+    updateConversation(activeConversation.id, c => ({ ...c, parameters: { ...preset.parameters }, presetId: preset.id }))
+  }
+
+  const savePreset = (name: string) => {
+    const preset = createPreset(name, parameters)
+    setCustomPresets(prev => [...prev, preset])
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, presetId: preset.id }))
+    }
+  }
+
+  const deletePreset = (id: string) => {
+    setCustomPresets(prev => prev.filter(p => p.id !== id))
+    setConversations(prev => prev.map(c => c.presetId === id ? { ...c, presetId: undefined } : c))
+  }
+
+  const importPresets = (imported: ParameterPreset[]) => {
+    setCustomPresets(prev => [...prev, ...imported])
+  }
+
+  const runCommand = (action: CommandAction, argument: string) => {
+    switch (action) {
+      case 'clear':
+        clearChat()
+        break
+      case 'model':
+        if (argument) updateSettings({ model: argument })
+        break
+      case 'system':
+        updateParameters({ systemPrompt: argument })
+        break
+    }
+  }
+
+  // Templates without placeholders go straight into the input
+  const applyTemplate = (template: PromptTemplate) => {
+    setShowTemplates(false)
+    if (extractVariables(template.content).length === 0) {
+      insertText(template.content)
+    } else {
+      setActiveTemplate(template)
+    }
+  }
+
+  const insertText = (text: string) => {
+    setActiveTemplate(null)
+    setInputValue(prev => prev.trim() ? `${prev}\n\n${text}` : text)
+    setTimeout(() => inputRef.current?.focus(), 100)
+  }
+
+  // Commands that take an argument are completed in the input; the rest run right away
+  const pickCommand = ({ command, option }: CommandSuggestion) => {
+    if (command.argument && option === undefined) {
+      setInputValue(`/${command.name} `)
+      return
+    }
+    setInputValue('')
+    if (command.template) {
+      applyTemplate(command.template)
+    } else {
+      runCommand(command.action!, option ?? '')
+    }
+  }
+
+  const saveTemplate = (template: PromptTemplate) => {
+    setCustomTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template])
+  }
+
+  const deleteTemplate = (id: string) => {
+    setCustomTemplates(prev => prev.filter(t => t.id !== id))
+  }
+
+  const importTemplates = (imported: PromptTemplate[]) => {
+    setCustomTemplates(prev => [...prev, ...imported])
+  }
+
+  const addDocuments = async (files: File[]) => {
+    setKnowledgeError(null)
+    for (const file of files) {
+      setIndexing({ name: file.name, done: 0, total: 0 })
+      try {
+        const document = await indexDocument(file, settings, knowledge, (done, total) => {
+          setIndexing({ name: file.name, done, total })
         })
+        await saveDocument(document)
+        setDocuments(prev => [...prev, document])
+      } catch (error) {
+        setKnowledgeError(`${file.name}: ${error instanceof Error ? error.message : 'Indexing failed'}`)
       }
-      if (!(response.ok)) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      const data = await response.json()
-      let assistantContent = ''
-      if (settings.provider === 'ollama') {
-        assistantContent = data.response || 'No response received'
-      } else {
-        assistantContent = data.choices?.[0]?.message?.content || 'No response received'
-      }
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: assistantContent,
-        timestamp: Date.now()
-      }
-      setMessages(prev => [...prev, assistantMessage])
-      setConnectionStatus('connected')
+    }
+    setIndexing(null)
+  }
+
+  const removeDocument = async (id: string) => {
+    setKnowledgeError(null)
+    try {
+      await deleteDocument(id)
+      setDocuments(prev => prev.filter(d => d.id !== id))
     } catch (error) {
-      setConnectionStatus('disconnected')
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: `❌ **Error**: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
-        timestamp: Date.now()
-      }
-      setMessages(prev => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
+      const name = documents.find(d => d.id === id)?.name || 'Document'
+      setKnowledgeError(`${name}: ${error instanceof Error ? error.message : 'Deleting failed'}`)
     }
   }
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault()
-      sendMessage()
+  const toggleKnowledge = (enabled: boolean) => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, useKnowledge: enabled }))
     }
   }
 
-  const updateSettings = (newSettings: Partial<ProviderSettings>) => {
-    setSettings(prev => ({ ...prev, ...newSettings }))
-    setAvailableModels([])
-    if (newSettings.provider || newSettings.baseUrl) {
-      setTimeout(() => {
-        testConnection()
-      }, 100)
+  const toggleStructuredOutput = () => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, structuredOutput: c.structuredOutput ? undefined : { schema: '' } }))
+    }
+  }
+
+  const setOutputSchema = (schema: string) => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, structuredOutput: { schema } }))
+    }
+  }
+
+  const toggleTools = () => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, useTools: !c.useTools }))
     }
   }
 
@@ -277,7 +1059,56 @@ const App: React.FC = () => {
   }
 
   const clearChat = () => {
-    setMessages([])
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, messages: [], activeLeafId: null, summaries: undefined, updatedAt: Date.now() }))
+    }
+  }
+
+  const createNewConversation = () => {
+    const conversation = createConversation(settings, [], parameters, activeConversation?.presetId)
+    setConversations(prev => [conversation, ...prev])
+    setActiveConversationId(conversation.id)
+    setTimeout(() => inputRef.current?.focus(), 100)
+  }
+
+  const renameConversation = (id: string, title: string) => {
+    updateConversation(id, c => ({ ...c, title }))
+  }
+
+  const importConversation = (conversation: Conversation) => {
+    setConversations(prev => [conversation, ...prev])
+    setActiveConversationId(conversation.id)
+  }
+
+  // Switches to the branch holding the message when it is not on the visible thread
+  const openSearchResult = (conversationId: string, messageId: string) => {
+    const conversation = conversations.find(c => c.id === conversationId)
+    if (!conversation) return
+    const isVisible = getThread(conversation.messages, conversation.activeLeafId).some(m => m.id === messageId)
+    const leafId = isVisible ? conversation.activeLeafId : findLatestLeaf(buildChildrenIndex(conversation.messages), messageId)
+    if (!isVisible) {
+      updateConversation(conversationId, c => ({ ...c, activeLeafId: leafId }))
+    }
+    // Messages folded into a summary are hidden until the summary is expanded
+    if (findSummary(conversation.summaries, getThread(conversation.messages, leafId))?.coveredIds.includes(messageId)) {
+      setShowReplaced(true)
+    }
+    setActiveConversationId(conversationId)
+    setFocusedMessageId(messageId)
+  }
+
+  const deleteConversation = (id: string) => {
+    const remaining = conversations.filter(c => c.id !== id)
+    if (remaining.length === 0) {
+      const conversation = createConversation(settings)
+      setConversations([conversation])
+      setActiveConversationId(conversation.id)
+      return
+    }
+    setConversations(remaining)
+    if (id === activeConversationId) {
+      setActiveConversationId([...remaining].sort((a, b) => b.updatedAt - a.updatedAt)[0].id)
+    }
   }
 
   const getStatusIcon = () => {
@@ -304,20 +1135,45 @@ const App: React.FC = () => {
     }
   }
 
+  if (isLocked) {
+    return <LockScreen onUnlock={unlock} onWipe={panicWipe} />
+  }
+
   return (
     <div className="app">
       <div className="app-header">
         <div className="header-left">
+          <button
+            className={`icon-button ${showSidebar ? 'active' : ''}`}
+            onClick={() => setShowSidebar(!showSidebar)}
+            title="Conversations"
+          >
+            <PanelLeft size={16} />
+          </button>
           <div className="app-title">
             <div className="app-icon">
               <Zap size={20} />
             </div>
             <h1>NeaLLM</h1>
           </div>
-          <div className={`connection-status ${connectionStatus}`}>
+          <button
+            className={`connection-status ${connectionStatus}`}
+            onClick={() => setShowDiagnostics(!showDiagnostics)}
+            title="Connection diagnostics"
+          >
             {getStatusIcon()}
             <span className="status-text">{getStatusText()}</span>
-          </div>
+          </button>
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={settings.profileId}
+            health={profileHealth}
+            disabled={isLoading}
+            onSelect={switchProfile}
+            onCheck={checkProfiles}
+            isManaging={showProfiles}
+            onManage={() => setShowProfiles(!showProfiles)}
+          />
         </div>
         <div className="header-actions">
           <a
@@ -337,6 +1193,63 @@ const App: React.FC = () => {
           >
             <RefreshCw size={16} />
           </button>
+          <button
+            className={`icon-button ${showSearch ? 'active' : ''}`}
+            onClick={() => setShowSearch(!showSearch)}
+            title="Search History"
+          >
+            <Search size={16} />
+          </button>
+          <button
+            className={`icon-button ${showTemplates ? 'active' : ''}`}
+            onClick={() => setShowTemplates(!showTemplates)}
+            title="Prompt Library"
+          >
+            <Library size={16} />
+          </button>
+          <button
+            className={`icon-button ${showModelManager ? 'active' : ''}`}
+            onClick={() => setShowModelManager(!showModelManager)}
+            title="Manage Models"
+          >
+            <HardDrive size={16} />
+          </button>
+          <button
+            className={`icon-button ${showKnowledge ? 'active' : ''}`}
+            onClick={() => setShowKnowledge(!showKnowledge)}
+            title="Knowledge Base"
+          >
+            <BookOpen size={16} />
+          </button>
+          <button
+            className={`icon-button ${showArena || arenaMode ? 'active' : ''}`}
+            onClick={() => setShowArena(!showArena)}
+            title={arenaMode ? 'Arena (on)' : 'Arena'}
+          >
+            <Swords size={16} />
+          </button>
+          <button
+            className={`icon-button ${showMetrics ? 'active' : ''}`}
+            onClick={() => setShowMetrics(!showMetrics)}
+            title="Performance"
+          >
+            <Activity size={16} />
+          </button>
+          <ExportMenu conversation={activeConversation} />
+          {
+            isEncrypted && (
+              <button className="icon-button" onClick={lockApp} title="Lock">
+                <Lock size={16} />
+              </button>
+            )
+          }
+          <button
+            className={`icon-button ${showSecurity ? 'active' : ''}`}
+            onClick={() => setShowSecurity(!showSecurity)}
+            title="Privacy & Encryption"
+          >
+            <KeyRound size={16} />
+          </button>
           <button 
             className="icon-button" 
             onClick={clearChat}
@@ -365,13 +1278,13 @@ const App: React.FC = () => {
                 <label>Provider Type</label>
                 <select
                   value={settings.provider}
-                  onChange={(e) => updateSettings({ 
-                    provider: e.target.value as 'ollama' | 'lmstudio',
-                    baseUrl: e.target.value === 'ollama' ? 'http://localhost:11434' : 'http://localhost:1234'
-                  })}
+                  onChange={(e) => changeProvider(e.target.value as ProviderId)}
                 >
-                  <option value="ollama">Ollama</option>
-                  <option value="lmstudio">LM Studio</option>
+                  {
+                    providerList.map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))
+                  }
                 </select>
               </div>
               <div className="form-group">
@@ -380,7 +1293,26 @@ const App: React.FC = () => {
                   type="text"
                   value={settings.baseUrl}
                   onChange={(e) => updateSettings({ baseUrl: e.target.value })}
-                  placeholder="http://localhost:11434"
+                  placeholder={getProvider(settings.provider).defaultBaseUrl}
+                />
+              </div>
+              <div className="form-group">
+                <label>API Key (optional)</label>
+                <input
+                  type="password"
+                  value={settings.apiKey || ''}
+                  onChange={(e) => updateSettings({ apiKey: e.target.value })}
+                  placeholder="sk-..."
+                  autoComplete="off"
+                />
+              </div>
+              <div className="form-group">
+                <label>Custom Headers (optional)</label>
+                <textarea
+                  value={settings.customHeaders || ''}
+                  onChange={(e) => updateSettings({ customHeaders: e.target.value })}
+                  placeholder="X-Api-Version: 2"
+                  rows={3}
                 />
               </div>
               <div className="form-group">
@@ -396,7 +1328,7 @@ const App: React.FC = () => {
                           availableModels.map((model) => {
                             return (
                               <option key={model.name} value={model.name}>
-                                {model.name}
+                                {model.name}{model.size ? ` (${formatBytes(model.size)})` : ''}
                               </option>
                             )
                           })
@@ -436,148 +1368,326 @@ const App: React.FC = () => {
                     )
                   }
               </div>
+              <div className="form-group">
+                <label>Context Budget (tokens)</label>
+                <input
+                  type="number"
+                  min={RESPONSE_TOKEN_RESERVE}
+                  step={512}
+                  value={settings.contextTokens}
+                  onChange={(e) => updateSettings({ contextTokens: Number(e.target.value) || defaultSettings.contextTokens })}
+                />
+              </div>
             </div>
+            <ParametersPanel
+              parameters={parameters}
+              provider={settings.provider}
+              presets={presets}
+              presetId={activeConversation?.presetId}
+              onChange={updateParameters}
+              onApplyPreset={applyPreset}
+              onSavePreset={savePreset}
+              onDeletePreset={deletePreset}
+              onImportPresets={importPresets}
+            />
             <div className="settings-info">
-              <p>Make sure your {settings.provider} server is running on {settings.baseUrl}</p>
+              <p>Make sure your {getProvider(settings.provider).label} server is running on {settings.baseUrl}</p>
             </div>
           </div>
         </div>
       )}
-      <div className="chat-area">
-        <div className="messages-container">
-          {
-            messages.length === 0 ? (
-              <div className="empty-state">
-                <div className="empty-icon">
-                  <Bot size={48} />
-                </div>
-                <h2>Welcome to NeaLLM</h2>
-                <p>Chat with local LLMs. Ollama & LM Studio supported.</p>
-                <div className="feature-grid">
-                  <div className="feature-card">
-                    <div className="feature-card-icon">
-                      <Zap size={24} />
-                    </div>
-                    <div className="feature-card-content">
-                      <h4>Lightning Fast</h4>
-                      <p>Instant local responses, no cloud, always super fast.</p>
-                    </div>
+      {showSecurity && (
+        <SecurityPanel
+          isEncrypted={isEncrypted}
+          security={security}
+          onChange={setSecurity}
+          onEnable={turnOnEncryption}
+          onChangePassphrase={(current, next) => changePassphrase(current, next, persistedState)}
+          onDisable={turnOffEncryption}
+          onLock={lockApp}
+          onWipe={panicWipe}
+        />
+      )}
+      {showProfiles && (
+        <ProfilesPanel
+          profiles={profiles}
+          activeProfileId={settings.profileId}
+          health={profileHealth}
+          isBusy={isLoading}
+          onUse={switchProfile}
+          onSave={saveProfile}
+          onSaveCurrent={saveCurrentProfile}
+          onDelete={deleteProfile}
+          onCheck={checkProfiles}
+        />
+      )}
+      {showTemplates && (
+        <TemplatesPanel
+          templates={templates}
+          onUse={applyTemplate}
+          onSave={saveTemplate}
+          onDelete={deleteTemplate}
+          onImport={importTemplates}
+        />
+      )}
+      {showSearch && (
+        <SearchPanel
+          index={searchIndex}
+          conversations={conversations}
+          onOpen={openSearchResult}
+        />
+      )}
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          settings={settings}
+          status={connectionStatus}
+          diagnosis={diagnosis}
+          lastChecked={lastHealthCheck}
+          onRetry={() => testConnection()}
+          onPull={(model) => {
+            setPullRequest(model)
+            setShowModelManager(true)
+          }}
+        />
+      )}
+      {showModelManager && (
+        <ModelManagerPanel
+          settings={settings}
+          models={availableModels}
+          onModelsChanged={() => {
+            loadAvailableModels()
+            setDiagnosis(prev => prev?.kind === 'model-missing' ? null : prev)
+          }}
+          pullRequest={pullRequest}
+          onPullRequestHandled={() => setPullRequest(null)}
+        />
+      )}
+      {showKnowledge && (
+        <KnowledgePanel
+          documents={documents}
+          knowledge={knowledge}
+          enabled={Boolean(activeConversation?.useKnowledge)}
+          indexing={indexing}
+          error={knowledgeError}
+          onToggle={toggleKnowledge}
+          onKnowledgeChange={(changes) => setKnowledge(prev => ({ ...prev, ...changes }))}
+          onAddFiles={addDocuments}
+          onDelete={removeDocument}
+        />
+      )}
+      {showArena && (
+        <ArenaPanel
+          enabled={arenaMode}
+          contestants={arena}
+          settings={settings}
+          onToggle={toggleArenaMode}
+          onChange={setArena}
+        />
+      )}
+      {showMetrics && (
+        <MetricsPanel messages={activeConversation?.messages || []} />
+      )}
+      <div className="app-body">
+        {
+          showSidebar && (
+            <Sidebar
+              conversations={conversations}
+              activeConversationId={activeConversationId}
+              onCreate={createNewConversation}
+              onSelect={setActiveConversationId}
+              onRename={renameConversation}
+              onDelete={deleteConversation}
+              onImport={importConversation}
+            />
+          )
+        }
+        <div className="chat-area">
+          <div className="messages-container">
+            {
+              messages.length === 0 ? (
+                <div className="empty-state">
+                  <div className="empty-icon">
+                    <Bot size={48} />
                   </div>
-                  <div className="feature-card">
-                    <div className="feature-card-icon">
-                      <Shield size={24} />
-                    </div>
-                    <div className="feature-card-content">
-                      <h4>100% Private</h4>
-                      <p>All data stays local, never leaves your device, truly private.</p>
+                  <h2>Welcome to NeaLLM</h2>
+                  <p>Chat with local LLMs. Ollama & LM Studio supported.</p>
+                  <div className="feature-grid">
+                    <div className="feature-card">
+                      <div className="feature-card-icon">
+                        <Zap size={24} />
+                      </div>
+                      <div className="feature-card-content">
+                        <h4>Lightning Fast</h4>
+                        <p>Instant local responses, no cloud, always super fast.</p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="feature-card">
-                    <div className="feature-card-icon">
-                      <Code size={24} />
+                    <div className="feature-card">
+                      <div className="feature-card-icon">
+                        <Shield size={24} />
+                      </div>
+                      <div className="feature-card-content">
+                        <h4>100% Private</h4>
+                        <p>All data stays local, never leaves your device, truly private.</p>
+                      </div>
                     </div>
-                    <div className="feature-card-content">
-                      <h4>Smart Assistant</h4>
-                      <p>Ollama and LM Studio LLMs, seamless provider switching.</p>
+                    <div className="feature-card">
+                      <div className="feature-card-icon">
+                        <Code size={24} />
+                      </div>
+                      <div className="feature-card-content">
+                        <h4>Smart Assistant</h4>
+                        <p>Ollama and LM Studio LLMs, seamless provider switching.</p>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <>
-                {
-                  messages.map((message) => (
-                    <div key={message.id} className={`message-wrapper ${message.role}`}>
-                      <div className="message-avatar">
-                        {message.role === 'user' ? <User size={16} /> : <Bot size={16} />}
-                      </div>
-                      <div className="message-bubble">
-                        <div className="message-content">
-                          {
-                            message.role === 'assistant' ? (
-                              <ReactMarkdown components={{p: props => <p style={{whiteSpace: 'pre-line'}}>{props.children}</p>}}>{message.content}</ReactMarkdown>
-                            ) : (
-                              <p style={{whiteSpace: 'pre-line'}}>{message.content}</p>
-                            )
-                          }
-                        </div>
-                        <div className="message-meta">
-                          <span className="message-time">
-                            {
-                              new Date(message.timestamp).toLocaleTimeString([], { 
-                                hour: '2-digit', 
-                                minute: '2-digit' 
-                              })
-                            }
-                          </span>
-                          <button 
-                            className="copy-button"
-                            onClick={() => copyToClipboard(message.content)}
-                            title="Copy"
-                          >
-                            <Copy size={12} />
-                          </button>
+              ) : (
+                <>
+                  {
+                    summary && (
+                      <SummaryCard
+                        summary={summary}
+                        showReplaced={showReplaced}
+                        onToggleReplaced={() => setShowReplaced(!showReplaced)}
+                      />
+                    )
+                  }
+                  {
+                    messages.map((message) => {
+                      const siblings = getSiblings(childrenIndex, message)
+                      const isCompacted = coveredIds.has(message.id)
+                      if (isCompacted && !showReplaced) return null
+                      return (
+                        <MessageItem
+                          key={message.id}
+                          message={message}
+                          siblingIndex={siblings.indexOf(message)}
+                          siblingCount={siblings.length}
+                          models={availableModels}
+                          currentModel={settings.model}
+                          isBusy={isLoading}
+                          isHighlighted={message.id === focusedMessageId}
+                          isStreaming={message.id === streamingMessageId}
+                          isCompacted={isCompacted}
+                          onCopy={copyToClipboard}
+                          onEdit={editMessage}
+                          onRegenerate={regenerateMessage}
+                          onSelectSibling={selectSibling}
+                          onToolDecision={decideToolCall}
+                          onRetryJson={retryJson}
+                          onTogglePin={togglePin}
+                        />
+                      )
+                    })
+                  }
+                  {
+                    (arenaRound.length > 0 || isArenaStreaming) && (
+                      <ArenaView
+                        replies={arenaRound}
+                        pendingCount={isArenaStreaming ? Math.max(arenaSize - arenaRound.length, 0) : 0}
+                        isBusy={isLoading}
+                        onPick={pickArenaWinner}
+                        onToolDecision={decideToolCall}
+                      />
+                    )
+                  }
+                  {
+                    loadingConversationId === activeConversationId && !streamingMessageId && !isArenaStreaming && (
+                      <div className="message-wrapper assistant">
+                        <div className="message-avatar">
+                          <Bot size={16} />
                         </div>
-                      </div>
-                    </div>
-                  ))
-                }
-                {
-                  isLoading && (
-                    <div className="message-wrapper assistant">
-                      <div className="message-avatar">
-                        <Bot size={16} />
-                      </div>
-                      <div className="message-bubble">
-                        <div className="typing-animation">
-                          <div className="typing-dots">
-                            <span></span>
-                            <span></span>
-                            <span></span>
+                        <div className="message-bubble">
+                          <div className="typing-animation">
+                            <div className="typing-dots">
+                              <span></span>
+                              <span></span>
+                              <span></span>
+                            </div>
+                            <span className="typing-text">{isCompacting ? 'Summarizing older messages...' : 'Thinking...'}</span>
                           </div>
-                          <span className="typing-text">Thinking...</span>
                         </div>
                       </div>
-                    </div>
-                  )
-                }
-                <div ref={messagesEndRef} />
-              </>
-            )
-          }
-        </div>
+                    )
+                  }
+                  <div ref={messagesEndRef} />
+                </>
+              )
+            }
+          </div>
 
-        <div className="input-area">
-          {connectionStatus === 'disconnected' && (
-            <div className="connection-alert">
-              <AlertCircle size={14} />
-              <span>Unable to connect to {settings.provider}. Please check your settings.</span>
-            </div>
-          )}
-          <div className="input-container">
-            <textarea
-              ref={inputRef}
-              className="message-input"
+          <div className="input-area">
+            {(connectionStatus === 'disconnected' || diagnosis) && (
+              <div className="connection-alert">
+                <AlertCircle size={14} />
+                <span>
+                  {diagnosis ? `${diagnosis.title}: ${diagnosis.detail}` : `Unable to connect to ${getProvider(settings.provider).label}.`}
+                  {isOffline && ' Messages you send are queued until it is back.'}
+                </span>
+                <button className="connection-alert-action" onClick={() => setShowDiagnostics(true)}>
+                  Diagnose
+                </button>
+              </div>
+            )}
+            {
+              retrievalNotice && (
+                <div className="connection-alert">
+                  <AlertCircle size={14} />
+                  <span>{retrievalNotice}</span>
+                  <button className="connection-alert-action" onClick={() => setRetrievalNotice(null)}>
+                    Dismiss
+                  </button>
+                </div>
+              )
+            }
+            {
+              activeTemplate && (
+                <TemplateForm
+                  key={activeTemplate.id}
+                  template={activeTemplate}
+                  onInsert={insertText}
+                  onCancel={() => setActiveTemplate(null)}
+                />
+              )
+            }
+            {
+              messages.length > 0 && (
+                <ContextMeter
+                  usage={contextUsage}
+                  isCompacting={isCompacting}
+                  canCompact={!isLoading && messages.length > 1}
+                  onCompact={compactNow}
+                />
+              )
+            }
+            {
+              activeConversation?.structuredOutput && (
+                <StructuredOutputBar
+                  schema={activeConversation.structuredOutput.schema}
+                  onChange={setOutputSchema}
+                  onClose={toggleStructuredOutput}
+                />
+              )
+            }
+            <Composer
               value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Type your question or code request here..."
-              disabled={isLoading}
-              rows={1}
+              onChange={setInputValue}
+              onSend={sendMessage}
+              onStop={stopGeneration}
+              isLoading={isLoading}
+              images={pendingImages}
+              onImagesChange={setPendingImages}
+              editorContext={attachedContext}
+              onClearContext={() => setAttachedContext(null)}
+              warning={visionWarning}
+              toolsEnabled={Boolean(activeConversation?.useTools)}
+              onToggleTools={toggleTools}
+              jsonEnabled={Boolean(activeConversation?.structuredOutput)}
+              onToggleJson={toggleStructuredOutput}
+              commands={commands}
+              onPickCommand={pickCommand}
+              inputRef={inputRef}
             />
-            <button
-              className={`send-button ${isLoading || !inputValue.trim() ? 'disabled' : ''}`}
-              onClick={sendMessage}
-              disabled={isLoading || !inputValue.trim()}
-            >
-              {
-                isLoading ? (
-                <Loader2 size={18} className="animate-spin" />
-                ) : (
-                  <Send size={18} />
-                )
-              }
-            </button>
           </div>
         </div>
       </div>
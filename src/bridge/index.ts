@@ -0,0 +1,33 @@
+import { vscode } from '../vscode'
+import { HostMessage, WebviewMessage } from './protocol'
+
+export interface MessageBus {
+  isAvailable: boolean
+  post: (message: WebviewMessage) => void
+  subscribe: (listener: (message: HostMessage) => void) => () => void
+}
+
+const createVsCodeBus = (api: NonNullable<typeof vscode>): MessageBus => ({
+  isAvailable: true,
+  post: (message) => api.postMessage(message),
+  subscribe: (listener) => {
+    const handler = (event: MessageEvent) => {
+      if (event.data && typeof event.data.type === 'string') {
+        listener(event.data as HostMessage)
+      }
+    }
+    window.addEventListener('message', handler)
+    return () => window.removeEventListener('message', handler)
+  }
+})
+
+// The browser build has no extension host, so messages go nowhere
+const noopBus: MessageBus = {
+  isAvailable: false,
+  post: () => {},
+  subscribe: () => () => {}
+}
+
+export const messageBus: MessageBus = vscode ? createVsCodeBus(vscode) : noopBus
+
+export type { EditorContext, EditorCommand, CodeAction, HostMessage, WebviewMessage } from './protocol'
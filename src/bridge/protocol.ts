@@ -0,0 +1,33 @@
+/**
+ * Messages exchanged between the webview and the VS Code extension host.
+ * Every message carries a `type` discriminator; the host side is expected
+ * to mirror these definitions.
+ */
+
+export interface EditorContext {
+  fileName: string
+  languageId: string
+  content: string
+  isSelection: boolean
+  startLine?: number
+  endLine?: number
+}
+
+export type EditorCommand = 'explain' | 'refactor' | 'tests'
+
+export type CodeAction = 'insertAtCursor' | 'replaceSelection' | 'openDiff'
+
+// Webview -> extension host
+export type WebviewMessage =
+  | { type: 'ready' }
+  | { type: 'requestContext' }
+  | { type: 'saveFile', filename: string, content: string, mimeType: string }
+  | { type: CodeAction, code: string, language?: string }
+  | { type: 'readWorkspaceFile', requestId: string, path: string }
+
+// Extension host -> webview
+export type HostMessage =
+  | { type: 'editorContext', context: EditorContext | null }
+  | { type: 'runCommand', command: EditorCommand, context: EditorContext }
+  // Answers `readWorkspaceFile`; exactly one of `content` and `error` is set
+  | { type: 'workspaceFile', requestId: string, content?: string, error?: string }
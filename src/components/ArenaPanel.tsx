@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ArenaContestant, ModelInfo, ProviderId, ProviderSettings } from '../types'
+import { getProvider, providerList } from '../providers'
+import { MAX_CONTESTANTS, MIN_CONTESTANTS, createContestant, toContestantSettings } from '../utils/arena'
+
+interface ArenaPanelProps {
+  enabled: boolean
+  contestants: ArenaContestant[]
+  settings: ProviderSettings
+  onToggle: (enabled: boolean) => void
+  onChange: (contestants: ArenaContestant[]) => void
+}
+
+interface ContestantRowProps {
+  contestant: ArenaContestant
+  settings: ProviderSettings
+  canRemove: boolean
+  onChange: (contestant: ArenaContestant) => void
+  onRemove: () => void
+}
+
+// Waits for typing in the URL field to pause before asking the server for its models
+const MODEL_LOOKUP_DELAY = 500
+
+const ContestantRow: React.FC<ContestantRowProps> = ({ contestant, settings, canRemove, onChange, onRemove }) => {
+  const [models, setModels] = useState<ModelInfo[]>([])
+  const listId = `arena-models-${contestant.id}`
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(() => {
+      getProvider(contestant.provider).listModels(toContestantSettings(settings, contestant))
+        .then(list => !cancelled && setModels(list))
+        .catch(() => !cancelled && setModels([]))
+    }, MODEL_LOOKUP_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [contestant.provider, contestant.baseUrl])
+
+  const changeProvider = (provider: ProviderId) => {
+    onChange({ ...contestant, provider, baseUrl: getProvider(provider).defaultBaseUrl })
+  }
+
+  return (
+    <div className="arena-contestant">
+      <select
+        value={contestant.provider}
+        onChange={(e) => changeProvider(e.target.value as ProviderId)}
+      >
+        {
+          providerList.map((provider) => (
+            <option key={provider.id} value={provider.id}>{provider.label}</option>
+          ))
+        }
+      </select>
+      <input
+        type="text"
+        value={contestant.baseUrl}
+        onChange={(e) => onChange({ ...contestant, baseUrl: e.target.value })}
+        placeholder={getProvider(contestant.provider).defaultBaseUrl}
+      />
+      <input
+        type="text"
+        list={listId}
+        value={contestant.model}
+        onChange={(e) => onChange({ ...contestant, model: e.target.value })}
+        placeholder="Model"
+      />
+      <datalist id={listId}>
+        {
+          models.map((model) => (
+            <option key={model.name} value={model.name} />
+          ))
+        }
+      </datalist>
+      <button
+        className="icon-button small"
+        onClick={onRemove}
+        disabled={!canRemove}
+        title="Remove from arena"
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+  )
+}
+
+const ArenaPanel: React.FC<ArenaPanelProps> = ({ enabled, contestants, settings, onToggle, onChange }) => {
+  const updateContestant = (updated: ArenaContestant) => {
+    onChange(contestants.map(c => c.id === updated.id ? updated : c))
+  }
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Arena</h3>
+          <div className="form-group checkbox-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onToggle(e.target.checked)}
+              />
+              Send new messages to every model below
+            </label>
+          </div>
+          <div className="arena-contestants">
+            {
+              contestants.map((contestant) => (
+                <ContestantRow
+                  key={contestant.id}
+                  contestant={contestant}
+                  settings={settings}
+                  canRemove={contestants.length > MIN_CONTESTANTS}
+                  onChange={updateContestant}
+                  onRemove={() => onChange(contestants.filter(c => c.id !== contestant.id))}
+                />
+              ))
+            }
+          </div>
+          <button
+            type="button"
+            className="new-chat-button"
+            onClick={() => onChange([...contestants, createContestant(settings)])}
+            disabled={contestants.length >= MAX_CONTESTANTS}
+          >
+            <Plus size={14} />
+            <span>Add Model</span>
+          </button>
+        </div>
+        <div className="settings-info">
+          <p>Compare {MIN_CONTESTANTS} to {MAX_CONTESTANTS} models on the same history and parameters. Pick the best reply to keep it and continue with its model; the others stay available as branches.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ArenaPanel
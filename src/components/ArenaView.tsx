@@ -0,0 +1,74 @@
+import React from 'react'
+import { Trophy, Loader2 } from 'lucide-react'
+import { Message } from '../types'
+import { getProvider } from '../providers'
+import { describeMetrics } from '../utils/metrics'
+import Markdown from './Markdown'
+import ToolInvocations from './ToolInvocations'
+import Reasoning from './Reasoning'
+
+interface ArenaViewProps {
+  replies: Message[]
+  // Contestants still waiting for their first token
+  pendingCount: number
+  isBusy: boolean
+  onPick: (message: Message) => void
+  onToolDecision: (invocationId: string, approved: boolean) => void
+}
+
+const ArenaView: React.FC<ArenaViewProps> = ({ replies, pendingCount, isBusy, onPick, onToolDecision }) => {
+  return (
+    <div className="arena-round">
+      {
+        replies.map((reply) => (
+          <div key={reply.id} className="arena-column">
+            <div className="arena-column-header">
+              <span className="arena-model">{reply.model}</span>
+              {reply.provider && <span className="arena-provider">{getProvider(reply.provider).label}</span>}
+            </div>
+            <div className="message-content">
+              {
+                reply.reasoning && (
+                  <Reasoning
+                    reasoning={reply.reasoning}
+                    duration={reply.reasoningDuration}
+                    isThinking={isBusy && reply.reasoningDuration === undefined}
+                  />
+                )
+              }
+              {
+                reply.toolInvocations && reply.toolInvocations.length > 0 && (
+                  <ToolInvocations invocations={reply.toolInvocations} onDecision={onToolDecision} />
+                )
+              }
+              <Markdown content={reply.content} isStreaming={isBusy} />
+            </div>
+            <div className="arena-column-footer">
+              <span className="message-metrics">
+                {reply.metrics ? describeMetrics(reply.metrics).join(' · ') : ''}
+              </span>
+              <button
+                className="dropdown-item primary"
+                onClick={() => onPick(reply)}
+                disabled={isBusy}
+                title="Continue the conversation with this reply"
+              >
+                <Trophy size={12} />
+                <span>Pick</span>
+              </button>
+            </div>
+          </div>
+        ))
+      }
+      {
+        Array.from({ length: pendingCount }, (_, i) => (
+          <div key={`pending-${i}`} className="arena-column pending">
+            <Loader2 size={16} className="animate-spin" />
+          </div>
+        ))
+      }
+    </div>
+  )
+}
+
+export default ArenaView
@@ -0,0 +1,32 @@
+import React from 'react'
+import { BookOpen } from 'lucide-react'
+import { Citation } from '../types'
+
+interface CitationsProps {
+  citations: Citation[]
+}
+
+const Citations: React.FC<CitationsProps> = ({ citations }) => {
+  return (
+    <div className="citations">
+      <div className="citations-title">
+        <BookOpen size={12} />
+        <span>Sources</span>
+      </div>
+      {
+        citations.map((citation) => (
+          <details key={citation.index} className="citation">
+            <summary>
+              <span className="citation-index">[{citation.index}]</span>
+              <span>{citation.documentName}</span>
+              <span className="citation-meta">chunk {citation.chunkIndex + 1} · {(citation.score * 100).toFixed(0)}% match</span>
+            </summary>
+            <pre>{citation.text}</pre>
+          </details>
+        ))
+      }
+    </div>
+  )
+}
+
+export default Citations
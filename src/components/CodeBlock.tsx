@@ -0,0 +1,113 @@
+import React, { useState } from 'react'
+import { ArrowDownToLine, Replace, GitCompare, Copy, Check, Download } from 'lucide-react'
+import { ExtraProps } from 'react-markdown'
+import type { Element, ElementContent } from 'hast'
+import { messageBus, CodeAction } from '../bridge'
+import { hastToText } from '../utils/hast'
+import { saveFile } from '../utils/download'
+import MermaidDiagram from './MermaidDiagram'
+
+const codeActions: { action: CodeAction, label: string, icon: React.ReactNode }[] = [
+  { action: 'insertAtCursor', label: 'Insert at cursor', icon: <ArrowDownToLine size={12} /> },
+  { action: 'replaceSelection', label: 'Replace selection', icon: <Replace size={12} /> },
+  { action: 'openDiff', label: 'Open as diff', icon: <GitCompare size={12} /> }
+]
+
+const fileExtensions: Record<string, string> = {
+  javascript: 'js',
+  js: 'js',
+  jsx: 'jsx',
+  typescript: 'ts',
+  ts: 'ts',
+  tsx: 'tsx',
+  python: 'py',
+  py: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  go: 'go',
+  java: 'java',
+  kotlin: 'kt',
+  csharp: 'cs',
+  cs: 'cs',
+  cpp: 'cpp',
+  c: 'c',
+  php: 'php',
+  swift: 'swift',
+  bash: 'sh',
+  sh: 'sh',
+  shell: 'sh',
+  powershell: 'ps1',
+  sql: 'sql',
+  html: 'html',
+  css: 'css',
+  scss: 'scss',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yml',
+  toml: 'toml',
+  xml: 'xml',
+  markdown: 'md',
+  md: 'md',
+  mermaid: 'mmd'
+}
+
+interface CodeBlockProps {
+  isStreaming: boolean
+}
+
+const CodeBlock: React.FC<JSX.IntrinsicElements['pre'] & ExtraProps & CodeBlockProps> = ({ node, isStreaming, children, ...props }) => {
+  const [copied, setCopied] = useState(false)
+  const codeNode = node?.children.find((child: ElementContent): child is Element => child.type === 'element' && child.tagName === 'code')
+  const className = codeNode?.properties.className
+  const classNames = Array.isArray(className) ? className.map(String) : []
+  const language = classNames.find(name => name.startsWith('language-'))?.slice('language-'.length)
+  const code = hastToText(codeNode).replace(/\n$/, '')
+
+  const copyCode = () => {
+    navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  const downloadCode = () => {
+    const extension = (language && fileExtensions[language.toLowerCase()]) || 'txt'
+    saveFile(`snippet.${extension}`, code, 'text/plain')
+  }
+
+  return (
+    <div className="code-block">
+      <div className="code-block-header">
+        <span className="code-block-language">{language || 'text'}</span>
+        <div className="code-block-actions">
+          {
+            messageBus.isAvailable && codeActions.map(({ action, label, icon }) => (
+              <button
+                key={action}
+                className="copy-button"
+                onClick={() => messageBus.post({ type: action, code, language })}
+                title={label}
+              >
+                {icon}
+              </button>
+            ))
+          }
+          <button className="copy-button" onClick={copyCode} title="Copy code">
+            {copied ? <Check size={12} /> : <Copy size={12} />}
+          </button>
+          <button className="copy-button" onClick={downloadCode} title="Download code">
+            <Download size={12} />
+          </button>
+        </div>
+      </div>
+      {
+        language === 'mermaid' && !isStreaming ? (
+          <MermaidDiagram code={code} />
+        ) : (
+          <pre {...props}>{children}</pre>
+        )
+      }
+    </div>
+  )
+}
+
+export default CodeBlock
@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Send, Square, FileCode2, X, ImagePlus, AlertTriangle, Wrench, Braces } from 'lucide-react'
+import { ImageAttachment } from '../types'
+import { messageBus, EditorContext } from '../bridge'
+import { describeContext } from '../utils/context'
+import { attachmentUrl, fileToAttachment, isImageFile } from '../utils/images'
+import { CommandSuggestion, SlashCommand, suggestCommands } from '../utils/commands'
+
+interface ComposerProps {
+  value: string
+  onChange: (value: string) => void
+  onSend: () => void
+  onStop: () => void
+  isLoading: boolean
+  images: ImageAttachment[]
+  onImagesChange: (images: ImageAttachment[]) => void
+  editorContext: EditorContext | null
+  onClearContext: () => void
+  warning?: string | null
+  toolsEnabled: boolean
+  onToggleTools: () => void
+  jsonEnabled: boolean
+  onToggleJson: () => void
+  commands: SlashCommand[]
+  onPickCommand: (suggestion: CommandSuggestion) => void
+  inputRef: React.RefObject<HTMLTextAreaElement>
+}
+
+const Composer: React.FC<ComposerProps> = ({
+  value,
+  onChange,
+  onSend,
+  onStop,
+  isLoading,
+  images,
+  onImagesChange,
+  editorContext,
+  onClearContext,
+  warning,
+  toolsEnabled,
+  onToggleTools,
+  jsonEnabled,
+  onToggleJson,
+  commands,
+  onPickCommand,
+  inputRef
+}) => {
+  const [isDragging, setIsDragging] = useState(false)
+  const [attachError, setAttachError] = useState<string | null>(null)
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0)
+  const [menuDismissed, setMenuDismissed] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const canSend = Boolean(value.trim()) || images.length > 0
+  const suggestions = menuDismissed ? [] : suggestCommands(commands, value)
+
+  useEffect(() => {
+    if (inputRef.current) {
+      inputRef.current.style.height = 'auto'
+      inputRef.current.style.height = `${Math.min(inputRef.current.scrollHeight, 120)}px`
+    }
+  }, [value])
+
+  useEffect(() => {
+    setSelectedSuggestion(0)
+    setMenuDismissed(false)
+  }, [value])
+
+  const addFiles = async (files: File[]) => {
+    const imageFiles = files.filter(isImageFile)
+    if (imageFiles.length === 0) return
+    try {
+      const attachments = await Promise.all(imageFiles.map(fileToAttachment))
+      onImagesChange([...images, ...attachments])
+      setAttachError(null)
+    } catch (error) {
+      setAttachError(error instanceof Error ? error.message : 'Could not attach image')
+    }
+  }
+
+  // While the command menu is open, arrows move through it and Enter or Tab picks
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setSelectedSuggestion((selectedSuggestion + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      onPickCommand(suggestions[Math.min(selectedSuggestion, suggestions.length - 1)])
+    } else if (e.key === 'Escape') {
+      setMenuDismissed(true)
+    }
+  }
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      if (canSend) onSend()
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.some(isImageFile)) {
+      e.preventDefault()
+      addFiles(files)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    addFiles(Array.from(e.dataTransfer.files))
+  }
+
+  return (
+    <div
+      className={`composer ${isDragging ? 'dragging' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault()
+        setIsDragging(true)
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {
+        (editorContext || images.length > 0) && (
+          <div className="composer-attachments">
+            {
+              editorContext && (
+                <div className="context-chip">
+                  <FileCode2 size={14} />
+                  <span>{describeContext(editorContext)}</span>
+                  <button
+                    className="icon-button small"
+                    onClick={onClearContext}
+                    title="Remove context"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              )
+            }
+            {
+              images.map((image) => (
+                <div key={image.id} className="image-thumbnail">
+                  <img src={attachmentUrl(image)} alt={image.name} title={image.name} />
+                  <button
+                    className="image-remove"
+                    onClick={() => onImagesChange(images.filter(i => i.id !== image.id))}
+                    title="Remove image"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))
+            }
+          </div>
+        )
+      }
+      {
+        (warning || attachError) && (
+          <div className="composer-warning">
+            <AlertTriangle size={12} />
+            <span>{attachError || warning}</span>
+          </div>
+        )
+      }
+      {
+        suggestions.length > 0 && (
+          <div className="command-menu">
+            {
+              suggestions.map((suggestion, i) => (
+                <button
+                  key={`${suggestion.command.name} ${suggestion.option ?? ''}`}
+                  className={`command-item ${i === selectedSuggestion ? 'active' : ''}`}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onPickCommand(suggestion)}
+                >
+                  <span className="command-name">
+                    /{suggestion.command.name}
+                    {suggestion.option ? ` ${suggestion.option}` : suggestion.command.argument && ` ${suggestion.command.argument}`}
+                  </span>
+                  {!suggestion.option && <span className="command-description">{suggestion.command.description}</span>}
+                </button>
+              ))
+            }
+          </div>
+        )
+      }
+      <div className="input-container">
+        {
+          messageBus.isAvailable && (
+            <button
+              className="icon-button"
+              onClick={() => messageBus.post({ type: 'requestContext' })}
+              disabled={isLoading}
+              title="Attach editor selection"
+            >
+              <FileCode2 size={16} />
+            </button>
+          )
+        }
+        <button
+          className="icon-button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          title="Attach images"
+        >
+          <ImagePlus size={16} />
+        </button>
+        <button
+          className={`icon-button ${toolsEnabled ? 'active' : ''}`}
+          onClick={onToggleTools}
+          disabled={isLoading}
+          title={toolsEnabled ? 'Tools enabled for this chat' : 'Let the model use tools'}
+        >
+          <Wrench size={16} />
+        </button>
+        <button
+          className={`icon-button ${jsonEnabled ? 'active' : ''}`}
+          onClick={onToggleJson}
+          disabled={isLoading}
+          title={jsonEnabled ? 'Replies are requested as JSON' : 'Request replies as JSON'}
+        >
+          <Braces size={16} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []))
+            e.target.value = ''
+          }}
+          hidden
+        />
+        <textarea
+          ref={inputRef}
+          className="message-input"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onKeyPress={handleKeyPress}
+          onPaste={handlePaste}
+          placeholder="Type your question or code request here, or / for commands..."
+          disabled={isLoading}
+          rows={1}
+        />
+        {
+          isLoading ? (
+            <button
+              className="send-button stop"
+              onClick={onStop}
+              title="Stop generating"
+            >
+              <Square size={18} />
+            </button>
+          ) : (
+            <button
+              className={`send-button ${!canSend ? 'disabled' : ''}`}
+              onClick={onSend}
+              disabled={!canSend}
+            >
+              <Send size={18} />
+            </button>
+          )
+        }
+      </div>
+    </div>
+  )
+}
+
+export default Composer
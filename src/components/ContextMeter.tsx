@@ -0,0 +1,44 @@
+import React from 'react'
+import { Layers, Loader2 } from 'lucide-react'
+import { COMPACTION_THRESHOLD, ContextUsage } from '../utils/compaction'
+
+interface ContextMeterProps {
+  usage: ContextUsage
+  isCompacting: boolean
+  canCompact: boolean
+  onCompact: () => void
+}
+
+const formatTokens = (tokens: number) => {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+const ContextMeter: React.FC<ContextMeterProps> = ({ usage, isCompacting, canCompact, onCompact }) => {
+  const ratio = usage.budget > 0 ? usage.used / usage.budget : 1
+  const level = ratio >= 1 ? 'full' : ratio >= COMPACTION_THRESHOLD ? 'high' : ''
+
+  return (
+    <div className={`context-meter ${level}`} title="Estimated tokens of the history and draft, against the context length minus the room kept for the reply">
+      <span className="context-meter-label">Context</span>
+      <div className="progress-bar">
+        <div className="progress-fill" style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+      </div>
+      <span className="context-meter-value">
+        ~{formatTokens(usage.used)} / {formatTokens(usage.budget)}
+      </span>
+      {
+        isCompacting ? (
+          <span className="context-meter-value">
+            <Loader2 size={12} className="animate-spin" /> Summarizing...
+          </span>
+        ) : (
+          <button className="icon-button small" onClick={onCompact} disabled={!canCompact} title="Summarize older messages now">
+            <Layers size={12} />
+          </button>
+        )
+      }
+    </div>
+  )
+}
+
+export default ContextMeter
@@ -0,0 +1,104 @@
+import React, { useState } from 'react'
+import { RefreshCw, Download, Copy, Check } from 'lucide-react'
+import { ProviderSettings } from '../types'
+import { getProvider } from '../providers'
+import { Diagnosis } from '../providers/diagnostics'
+
+interface DiagnosticsPanelProps {
+  settings: ProviderSettings
+  status: 'connected' | 'disconnected' | 'connecting'
+  diagnosis: Diagnosis | null
+  lastChecked: number | null
+  onRetry: () => void
+  onPull: (model: string) => void
+}
+
+const statusLabels = {
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  connecting: 'Checking...'
+}
+
+// Renders `code` spans in fix texts without pulling in the Markdown pipeline
+const renderFix = (text: string) => {
+  return text.split(/(`[^`]+`)/).map((part, i) => (
+    part.startsWith('`') && part.endsWith('`') ? <code key={i}>{part.slice(1, -1)}</code> : part
+  ))
+}
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ settings, status, diagnosis, lastChecked, onRetry, onPull }) => {
+  const [copied, setCopied] = useState(false)
+  const provider = getProvider(settings.provider)
+
+  const copyCommand = (command: string) => {
+    navigator.clipboard.writeText(command)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Connection Diagnostics</h3>
+          <dl className="model-details">
+            <dt>Server</dt>
+            <dd>{provider.label} · {settings.baseUrl}</dd>
+            <dt>Status</dt>
+            <dd>{statusLabels[status]}</dd>
+            <dt>Last Check</dt>
+            <dd>{lastChecked ? new Date(lastChecked).toLocaleTimeString() : '—'}</dd>
+          </dl>
+          {
+            diagnosis ? (
+              <div className={`diagnosis ${diagnosis.kind}`}>
+                <div className="diagnosis-title">{diagnosis.title}</div>
+                <p>{diagnosis.detail}</p>
+                <ul>
+                  {
+                    diagnosis.fixes.map((fix) => (
+                      <li key={fix}>{renderFix(fix)}</li>
+                    ))
+                  }
+                </ul>
+                {
+                  diagnosis.command && (
+                    <div className="diagnosis-command">
+                      <code>{diagnosis.command}</code>
+                      <button className="copy-button" onClick={() => copyCommand(diagnosis.command!)} title="Copy command">
+                        {copied ? <Check size={12} /> : <Copy size={12} />}
+                      </button>
+                    </div>
+                  )
+                }
+              </div>
+            ) : (
+              <div className="model-info">
+                <span>{status === 'connected' ? 'No problems detected.' : 'No check has failed yet.'}</span>
+              </div>
+            )
+          }
+          <div className="diagnosis-actions">
+            <button type="button" className="new-chat-button" onClick={onRetry} disabled={status === 'connecting'}>
+              <RefreshCw size={14} />
+              <span>Check Again</span>
+            </button>
+            {
+              diagnosis?.kind === 'model-missing' && diagnosis.model && provider.modelManager && (
+                <button type="button" className="new-chat-button" onClick={() => onPull(diagnosis.model!)}>
+                  <Download size={14} />
+                  <span>Pull {diagnosis.model}</span>
+                </button>
+              )
+            }
+          </div>
+        </div>
+        <div className="settings-info">
+          <p>The server is checked every 30 seconds while connected, and retried with increasing delays while it is down.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DiagnosticsPanel
@@ -0,0 +1,55 @@
+import React, { useState } from 'react'
+import { Download, FileText, FileJson, FileCode } from 'lucide-react'
+import { Conversation } from '../types'
+import { exportConversation, ExportFormat } from '../utils/export'
+import { saveFile } from '../utils/download'
+
+interface ExportMenuProps {
+  conversation: Conversation | null
+}
+
+const formats: { format: ExportFormat, label: string, icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown', icon: <FileText size={14} /> },
+  { format: 'json', label: 'JSON', icon: <FileJson size={14} /> },
+  { format: 'html', label: 'HTML', icon: <FileCode size={14} /> }
+]
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ conversation }) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleExport = (format: ExportFormat) => {
+    if (!conversation) return
+    const { filename, content, mimeType } = exportConversation(conversation, format)
+    saveFile(filename, content, mimeType)
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="dropdown">
+      <button
+        className={`icon-button ${isOpen ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!conversation || conversation.messages.length === 0}
+        title="Export Chat"
+      >
+        <Download size={16} />
+      </button>
+      {
+        isOpen && (
+          <div className="dropdown-menu">
+            {
+              formats.map(({ format, label, icon }) => (
+                <button key={format} className="dropdown-item" onClick={() => handleExport(format)}>
+                  {icon}
+                  <span>{label}</span>
+                </button>
+              ))
+            }
+          </div>
+        )
+      }
+    </div>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react'
+import { CheckCircle, AlertCircle, RotateCcw } from 'lucide-react'
+import { buildRetryFeedback, childPath, parseJsonReply, parseSchema, validateJson } from '../utils/jsonSchema'
+
+interface JsonViewProps {
+  content: string
+  schema: string
+  isBusy: boolean
+  onRetry: (feedback: string) => void
+}
+
+interface JsonNodeProps {
+  name?: string | number
+  value: unknown
+  path: string
+  depth: number
+  errorPaths: Set<string>
+}
+
+// Levels below this start collapsed
+const EXPANDED_DEPTH = 2
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, path, depth, errorPaths }) => {
+  const invalid = errorPaths.has(path) ? 'invalid' : ''
+  const label = name === undefined ? null : <span className="json-key">{typeof name === 'number' ? name : JSON.stringify(name)}: </span>
+  if (value !== null && typeof value === 'object') {
+    const entries: [string | number, unknown][] = Array.isArray(value) ? value.map((item, i) => [i, item]) : Object.entries(value)
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}']
+    return (
+      <details className={`json-node ${invalid}`} open={depth < EXPANDED_DEPTH}>
+        <summary>
+          {label}
+          <span className="json-brace">{open}</span>
+          <span className="json-count">{entries.length} {Array.isArray(value) ? 'items' : 'keys'}</span>
+          <span className="json-brace">{close}</span>
+        </summary>
+        <div className="json-children">
+          {
+            entries.map(([key, child]) => (
+              <JsonNode key={key} name={key} value={child} path={childPath(path, key)} depth={depth + 1} errorPaths={errorPaths} />
+            ))
+          }
+        </div>
+      </details>
+    )
+  }
+  return (
+    <div className={`json-leaf ${invalid}`}>
+      {label}
+      <span className={`json-${value === null ? 'null' : typeof value}`}>{JSON.stringify(value)}</span>
+    </div>
+  )
+}
+
+/**
+ * A JSON-mode reply: the parsed value as a collapsible tree, checked
+ * against the schema it was requested with.
+ */
+const JsonView: React.FC<JsonViewProps> = ({ content, schema, isBusy, onRetry }) => {
+  const { value, parseError, errors } = useMemo(() => {
+    const parsed = parseJsonReply(content)
+    const { schema: schemaObject } = parseSchema(schema)
+    return {
+      value: parsed.value,
+      parseError: parsed.error,
+      errors: parsed.error === undefined && schemaObject ? validateJson(parsed.value, schemaObject) : []
+    }
+  }, [content, schema])
+  // Missing properties are reported on the key that should exist, so their parent gets the highlight
+  const errorPaths = useMemo(() => new Set(errors.flatMap(error => {
+    const parent = error.path.replace(/(\.[^.[]+|\[[^\]]+\])$/, '')
+    return error.message === 'is required' ? [parent] : [error.path]
+  })), [errors])
+  const isValid = parseError === undefined && errors.length === 0
+
+  return (
+    <div className="json-view">
+      <div className={`json-status ${isValid ? 'valid' : 'invalid'}`}>
+        {isValid ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+        <span>
+          {
+            parseError !== undefined ? `Not valid JSON: ${parseError}`
+              : errors.length > 0 ? `${errors.length} schema error${errors.length === 1 ? '' : 's'}`
+              : schema.trim() ? 'Matches the schema' : 'Valid JSON'
+          }
+        </span>
+        {
+          !isValid && (
+            <button
+              className="connection-alert-action"
+              onClick={() => onRetry(buildRetryFeedback(parseError, errors))}
+              disabled={isBusy}
+              title="Send the errors back to the model and ask again"
+            >
+              <RotateCcw size={11} />
+              <span>Retry with feedback</span>
+            </button>
+          )
+        }
+      </div>
+      {
+        errors.length > 0 && (
+          <ul className="json-errors">
+            {
+              errors.map((error, i) => (
+                <li key={i}><code>{error.path}</code> {error.message}</li>
+              ))
+            }
+          </ul>
+        )
+      }
+      {
+        parseError !== undefined ? (
+          <pre className="json-raw">{content}</pre>
+        ) : (
+          <div className="json-tree">
+            <JsonNode value={value} path="$" depth={0} errorPaths={errorPaths} />
+          </div>
+        )
+      }
+    </div>
+  )
+}
+
+export default JsonView
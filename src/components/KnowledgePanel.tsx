@@ -0,0 +1,173 @@
+import React, { useRef } from 'react'
+import { FilePlus, FileText, Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import { KnowledgeDocument, KnowledgeSettings } from '../types'
+
+export interface IndexingProgress {
+  name: string
+  done: number
+  total: number
+}
+
+interface KnowledgePanelProps {
+  documents: KnowledgeDocument[]
+  knowledge: KnowledgeSettings
+  enabled: boolean
+  indexing: IndexingProgress | null
+  error: string | null
+  onToggle: (enabled: boolean) => void
+  onKnowledgeChange: (knowledge: Partial<KnowledgeSettings>) => void
+  onAddFiles: (files: File[]) => void
+  onDelete: (id: string) => void
+}
+
+const ACCEPTED_FILES = '.txt,.md,.markdown,.json,.csv,.log,.yaml,.yml,.toml,.xml,.html,.css,.js,.jsx,.ts,.tsx,.py,.rb,.go,.rs,.java,.kt,.c,.h,.cpp,.cs,.php,.swift,.sh,.sql'
+
+const KnowledgePanel: React.FC<KnowledgePanelProps> = ({
+  documents,
+  knowledge,
+  enabled,
+  indexing,
+  error,
+  onToggle,
+  onKnowledgeChange,
+  onAddFiles,
+  onDelete
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Knowledge Base</h3>
+          <div className="form-group checkbox-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onToggle(e.target.checked)}
+              />
+              Use documents in this conversation
+            </label>
+          </div>
+          <div className="parameter-grid">
+            <div className="form-group">
+              <label>Embedding Model</label>
+              <input
+                type="text"
+                value={knowledge.embeddingModel}
+                onChange={(e) => onKnowledgeChange({ embeddingModel: e.target.value })}
+                placeholder="nomic-embed-text"
+              />
+            </div>
+            <div className="form-group">
+              <label>Results (top-k)</label>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={knowledge.topK}
+                onChange={(e) => onKnowledgeChange({ topK: Number(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="form-group">
+              <label>Chunk Size (chars)</label>
+              <input
+                type="number"
+                min={200}
+                step={100}
+                value={knowledge.chunkSize}
+                onChange={(e) => onKnowledgeChange({ chunkSize: Number(e.target.value) || 200 })}
+              />
+            </div>
+            <div className="form-group">
+              <label>Chunk Overlap (chars)</label>
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={knowledge.chunkOverlap}
+                onChange={(e) => onKnowledgeChange({ chunkOverlap: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+          <div className="document-list">
+            {
+              documents.map((document) => (
+                <div key={document.id} className="document-item">
+                  <FileText size={14} />
+                  <span className="document-name">{document.name}</span>
+                  <span className="document-meta">
+                    {document.chunks.length} chunk{document.chunks.length !== 1 ? 's' : ''} · {document.embeddingModel}
+                  </span>
+                  {
+                    document.embeddingModel !== knowledge.embeddingModel && (
+                      <span title="Embedded with a different model; it is skipped until re-added">
+                        <AlertTriangle size={12} className="document-warning" />
+                      </span>
+                    )
+                  }
+                  <button
+                    className="icon-button small"
+                    onClick={() => onDelete(document.id)}
+                    title="Remove document"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))
+            }
+            {
+              documents.length === 0 && !indexing && (
+                <div className="model-info">
+                  <span>No documents yet. Add text, Markdown or source files to ask questions about them.</span>
+                </div>
+              )
+            }
+            {
+              indexing && (
+                <div className="document-item">
+                  <Loader2 size={14} className="animate-spin" />
+                  <span className="document-name">{indexing.name}</span>
+                  <span className="document-meta">Embedding {indexing.done}/{indexing.total}</span>
+                </div>
+              )
+            }
+          </div>
+          {
+            error && (
+              <div className="model-info error">
+                <span>{error}</span>
+              </div>
+            )
+          }
+          <button
+            type="button"
+            className="new-chat-button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={Boolean(indexing)}
+          >
+            <FilePlus size={14} />
+            <span>Add Documents</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FILES}
+            multiple
+            onChange={(e) => {
+              onAddFiles(Array.from(e.target.files || []))
+              e.target.value = ''
+            }}
+            hidden
+          />
+        </div>
+        <div className="settings-info">
+          <p>Documents are chunked and embedded by your local server and stored in this browser's IndexedDB. Nothing leaves your device.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default KnowledgePanel
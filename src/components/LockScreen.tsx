@@ -0,0 +1,84 @@
+import React, { useState } from 'react'
+import { Lock, Loader2 } from 'lucide-react'
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>
+  onWipe: () => Promise<void>
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onWipe }) => {
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [confirmWipe, setConfirmWipe] = useState(false)
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase || isUnlocking) return
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      await onUnlock(passphrase)
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : 'Could not unlock')
+      setPassphrase('')
+      setIsUnlocking(false)
+    }
+  }
+
+  const wipe = async () => {
+    if (!confirmWipe) {
+      setConfirmWipe(true)
+      return
+    }
+    setConfirmWipe(false)
+    setError(null)
+    try {
+      await onWipe()
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : 'Could not erase the data')
+    }
+  }
+
+  return (
+    <div className="lock-screen">
+      <form className="lock-card" onSubmit={unlock}>
+        <div className="empty-icon">
+          <Lock size={40} />
+        </div>
+        <h2>NeaLLM is locked</h2>
+        <p>Enter your passphrase to decrypt your conversations.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          disabled={isUnlocking}
+        />
+        {
+          error && (
+            <div className="model-info error">
+              <span>{error}</span>
+            </div>
+          )
+        }
+        <button type="submit" className="dropdown-item primary" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? <Loader2 size={14} className="animate-spin" /> : <Lock size={14} />}
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <button
+          type="button"
+          className={`lock-wipe ${confirmWipe ? 'danger' : ''}`}
+          onClick={wipe}
+          onBlur={() => setConfirmWipe(false)}
+        >
+          {confirmWipe ? 'Click again to erase all data for good' : 'Forgot the passphrase? Erase all data'}
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default LockScreen
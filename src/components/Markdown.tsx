@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react'
+import ReactMarkdown, { Options } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import 'katex/dist/katex.min.css'
+import 'highlight.js/styles/github-dark.css'
+import CodeBlock from './CodeBlock'
+
+interface MarkdownProps {
+  content: string
+  // Diagrams wait for the finished text instead of failing on a half-written fence
+  isStreaming?: boolean
+}
+
+const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath]
+const rehypePlugins: Options['rehypePlugins'] = [rehypeKatex, [rehypeHighlight, { detect: false, ignoreMissing: true }]]
+
+const Paragraph = (props: JSX.IntrinsicElements['p']) => <p style={{whiteSpace: 'pre-line'}}>{props.children}</p>
+
+const Markdown: React.FC<MarkdownProps> = ({ content, isStreaming = false }) => {
+  const components: Options['components'] = useMemo(() => ({
+    p: Paragraph,
+    pre: (props) => <CodeBlock {...props} isStreaming={isStreaming} />
+  }), [isStreaming])
+
+  return (
+    <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+      {content}
+    </ReactMarkdown>
+  )
+}
+
+export default React.memo(Markdown)
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react'
+
+interface MermaidDiagramProps {
+  code: string
+}
+
+let diagramCounter = 0
+
+// mermaid is large, so it is only loaded once a diagram is actually rendered
+const loadMermaid = async () => {
+  const { default: mermaid } = await import('mermaid')
+  mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' })
+  return mermaid
+}
+
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code }) => {
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadMermaid()
+      .then(mermaid => mermaid.render(`mermaid-${++diagramCounter}`, code))
+      .then(({ svg }) => {
+        if (!cancelled) {
+          setSvg(svg)
+          setError(null)
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Invalid diagram')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [code])
+
+  if (error) {
+    return <div className="mermaid-error">Diagram error: {error}</div>
+  }
+  if (!svg) {
+    return <div className="mermaid-diagram loading">Rendering diagram...</div>
+  }
+  return <div className="mermaid-diagram" dangerouslySetInnerHTML={{ __html: svg }} />
+}
+
+export default MermaidDiagram
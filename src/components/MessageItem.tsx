@@ -0,0 +1,298 @@
+import React, { useState } from 'react'
+import { User, Bot, Copy, FileCode2, Pencil, RefreshCw, ChevronLeft, ChevronRight, Trophy, Clock, Pin, PinOff } from 'lucide-react'
+import { Message, ModelInfo } from '../types'
+import { describeContext } from '../utils/context'
+import { attachmentUrl } from '../utils/images'
+import { describeMetrics } from '../utils/metrics'
+import { formatDuration } from '../utils/format'
+import Markdown from './Markdown'
+import Citations from './Citations'
+import ToolInvocations from './ToolInvocations'
+import JsonView from './JsonView'
+import Reasoning from './Reasoning'
+
+interface MessageItemProps {
+  message: Message
+  siblingIndex: number
+  siblingCount: number
+  models: ModelInfo[]
+  currentModel: string
+  isBusy: boolean
+  isHighlighted?: boolean
+  isStreaming?: boolean
+  // Folded into the context summary and only shown on request
+  isCompacted?: boolean
+  onCopy: (text: string) => void
+  onEdit: (message: Message, content: string) => void
+  onRegenerate: (message: Message, model: string) => void
+  onSelectSibling: (message: Message, offset: number) => void
+  onToolDecision: (invocationId: string, approved: boolean) => void
+  onRetryJson: (message: Message, feedback: string) => void
+  onTogglePin: (message: Message) => void
+}
+
+const MessageItem: React.FC<MessageItemProps> = ({
+  message,
+  siblingIndex,
+  siblingCount,
+  models,
+  currentModel,
+  isBusy,
+  isHighlighted,
+  isStreaming,
+  isCompacted,
+  onCopy,
+  onEdit,
+  onRegenerate,
+  onSelectSibling,
+  onToolDecision,
+  onRetryJson,
+  onTogglePin
+}) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const [showModelPicker, setShowModelPicker] = useState(false)
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    if (!draft.trim()) return
+    setIsEditing(false)
+    onEdit(message, draft.trim())
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      submitEdit()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
+  return (
+    <div id={`message-${message.id}`} className={`message-wrapper ${message.role} ${isHighlighted ? 'highlighted' : ''} ${isCompacted ? 'compacted' : ''}`}>
+      <div className="message-avatar">
+        {message.role === 'user' ? <User size={16} /> : <Bot size={16} />}
+      </div>
+      <div className="message-bubble">
+        <div className="message-content">
+          {
+            message.role === 'assistant' ? (
+              <>
+                {
+                  message.reasoning && (
+                    <Reasoning
+                      reasoning={message.reasoning}
+                      duration={message.reasoningDuration}
+                      isThinking={Boolean(isStreaming) && message.reasoningDuration === undefined}
+                    />
+                  )
+                }
+                {
+                  message.toolInvocations && message.toolInvocations.length > 0 && (
+                    <ToolInvocations invocations={message.toolInvocations} onDecision={onToolDecision} />
+                  )
+                }
+                {
+                  message.outputSchema !== undefined && !isStreaming && message.content ? (
+                    <JsonView
+                      content={message.content}
+                      schema={message.outputSchema}
+                      isBusy={isBusy}
+                      onRetry={(feedback) => onRetryJson(message, feedback)}
+                    />
+                  ) : (
+                    <Markdown content={message.content} isStreaming={isStreaming} />
+                  )
+                }
+                {message.citations && <Citations citations={message.citations} />}
+              </>
+            ) : (
+              <>
+                {
+                  message.context && (
+                    <details className="message-context">
+                      <summary>
+                        <FileCode2 size={12} />
+                        <span>{describeContext(message.context)}</span>
+                      </summary>
+                      <pre><code>{message.context.content}</code></pre>
+                    </details>
+                  )
+                }
+                {
+                  message.attachments && message.attachments.length > 0 && (
+                    <div className="message-attachments">
+                      {
+                        message.attachments.map((image) => (
+                          <img key={image.id} src={attachmentUrl(image)} alt={image.name} title={image.name} />
+                        ))
+                      }
+                    </div>
+                  )
+                }
+                {
+                  isEditing ? (
+                    <div className="message-edit">
+                      <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={handleEditKeyDown}
+                        rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+                        autoFocus
+                      />
+                      <div className="message-edit-actions">
+                        <button className="dropdown-item" onClick={() => setIsEditing(false)}>Cancel</button>
+                        <button className="dropdown-item primary" onClick={submitEdit} disabled={!draft.trim()}>Save & Send</button>
+                      </div>
+                    </div>
+                  ) : (
+                    message.content && <p style={{whiteSpace: 'pre-line'}}>{message.content}</p>
+                  )
+                }
+              </>
+            )
+          }
+        </div>
+        <div className="message-meta">
+          {
+            siblingCount > 1 && (
+              <span className="branch-switcher">
+                <button
+                  className="copy-button"
+                  onClick={() => onSelectSibling(message, -1)}
+                  disabled={isBusy || siblingIndex === 0}
+                  title="Previous version"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <span>{siblingIndex + 1}/{siblingCount}</span>
+                <button
+                  className="copy-button"
+                  onClick={() => onSelectSibling(message, 1)}
+                  disabled={isBusy || siblingIndex === siblingCount - 1}
+                  title="Next version"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </span>
+            )
+          }
+          <span className="message-time">
+            {
+              new Date(message.timestamp).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit'
+              })
+            }
+          </span>
+          {message.role === 'assistant' && message.model && <span className="message-model">{message.model}</span>}
+          {
+            message.queued && (
+              <span className="message-queued" title="Sent once the server answers again">
+                <Clock size={12} />
+                <span>Queued</span>
+              </span>
+            )
+          }
+          {
+            message.arenaWinner && (
+              <span className="arena-winner" title="Picked in the arena">
+                <Trophy size={12} />
+              </span>
+            )
+          }
+          {
+            message.metrics && (
+              <span
+                className="message-metrics"
+                title={message.metrics.totalDuration !== undefined ? `Total ${formatDuration(message.metrics.totalDuration)}` : undefined}
+              >
+                {describeMetrics(message.metrics).join(' · ')}
+              </span>
+            )
+          }
+          <button
+            className="copy-button"
+            onClick={() => onCopy(message.content)}
+            title="Copy"
+          >
+            <Copy size={12} />
+          </button>
+          <button
+            className={`copy-button ${message.pinned ? 'active' : ''}`}
+            onClick={() => onTogglePin(message)}
+            disabled={isCompacted}
+            title={message.pinned ? 'Unpin' : 'Pin: never summarize this message'}
+          >
+            {message.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+          </button>
+          {
+            message.role === 'user' && !isEditing && (
+              <button
+                className="copy-button"
+                onClick={startEditing}
+                disabled={isBusy}
+                title="Edit and resend"
+              >
+                <Pencil size={12} />
+              </button>
+            )
+          }
+          {
+            message.role === 'assistant' && (
+              <span className="dropdown">
+                <button
+                  className="copy-button"
+                  onClick={() => onRegenerate(message, currentModel)}
+                  disabled={isBusy}
+                  title="Regenerate"
+                >
+                  <RefreshCw size={12} />
+                </button>
+                {
+                  models.length > 1 && (
+                    <button
+                      className="copy-button"
+                      onClick={() => setShowModelPicker(!showModelPicker)}
+                      disabled={isBusy}
+                      title="Regenerate with another model"
+                    >
+                      <ChevronRight size={12} className={showModelPicker ? 'rotate-90' : ''} />
+                    </button>
+                  )
+                }
+                {
+                  showModelPicker && (
+                    <div className="dropdown-menu">
+                      {
+                        models.map((model) => (
+                          <button
+                            key={model.name}
+                            className="dropdown-item"
+                            onClick={() => {
+                              setShowModelPicker(false)
+                              onRegenerate(message, model.name)
+                            }}
+                          >
+                            {model.name}
+                          </button>
+                        ))
+                      }
+                    </div>
+                  )
+                }
+              </span>
+            )
+          }
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MessageItem
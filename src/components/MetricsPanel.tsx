@@ -0,0 +1,115 @@
+import React from 'react'
+import { Message } from '../types'
+import { summarizeMetrics } from '../utils/metrics'
+import { formatDuration } from '../utils/format'
+
+interface MetricsPanelProps {
+  messages: Message[]
+}
+
+const CHART_HEIGHT = 80
+const BAR_WIDTH = 10
+const BAR_GAP = 4
+const MODEL_COLORS = ['#158f77', '#4f8cff', '#ff9800', '#c678dd', '#f44336', '#00c853']
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ messages }) => {
+  const responses = messages
+    .filter(m => m.role === 'assistant' && m.metrics?.tokensPerSecond !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp)
+  const summary = summarizeMetrics(messages)
+  const colorOf = (model?: string) => {
+    const index = summary.findIndex(s => s.model === (model || 'unknown'))
+    return MODEL_COLORS[Math.max(index, 0) % MODEL_COLORS.length]
+  }
+  const hasArena = summary.some(row => row.arenaWins > 0)
+  const maxSpeed = Math.max(...responses.map(m => m.metrics!.tokensPerSecond!), 1)
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Performance</h3>
+          {
+            summary.length === 0 ? (
+              <div className="model-info">
+                <span>No metrics yet. They are recorded for every response from now on.</span>
+              </div>
+            ) : (
+              <table className="metrics-table">
+                <thead>
+                  <tr>
+                    <th>Model</th>
+                    <th>Responses</th>
+                    <th>Avg tok/s</th>
+                    <th>Avg TTFT</th>
+                    <th>Prompt tokens</th>
+                    <th>Completion tokens</th>
+                    {hasArena && <th>Arena wins</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {
+                    summary.map((row) => (
+                      <tr key={row.model}>
+                        <td>
+                          <span className="metrics-swatch" style={{ background: colorOf(row.model) }} />
+                          {row.model}
+                        </td>
+                        <td>{row.responses}</td>
+                        <td>{row.averageTokensPerSecond?.toFixed(1) ?? '—'}</td>
+                        <td>{row.averageTimeToFirstToken !== undefined ? formatDuration(row.averageTimeToFirstToken) : '—'}</td>
+                        <td>{row.promptTokens.toLocaleString()}</td>
+                        <td>{row.completionTokens.toLocaleString()}</td>
+                        {hasArena && <td>{row.arenaWins}</td>}
+                      </tr>
+                    ))
+                  }
+                </tbody>
+              </table>
+            )
+          }
+        </div>
+        {
+          responses.length > 0 && (
+            <div className="settings-section">
+              <h3>Tokens per Second</h3>
+              <div className="metrics-chart">
+                <svg
+                  width={responses.length * (BAR_WIDTH + BAR_GAP)}
+                  height={CHART_HEIGHT}
+                  role="img"
+                  aria-label="Tokens per second for each response"
+                >
+                  {
+                    responses.map((message, i) => {
+                      const speed = message.metrics!.tokensPerSecond!
+                      const height = Math.max((speed / maxSpeed) * CHART_HEIGHT, 1)
+                      return (
+                        <rect
+                          key={message.id}
+                          x={i * (BAR_WIDTH + BAR_GAP)}
+                          y={CHART_HEIGHT - height}
+                          width={BAR_WIDTH}
+                          height={height}
+                          rx={2}
+                          fill={colorOf(message.model)}
+                        >
+                          <title>{`${message.model || 'unknown'}: ${speed.toFixed(1)} tok/s`}</title>
+                        </rect>
+                      )
+                    })
+                  }
+                </svg>
+              </div>
+            </div>
+          )
+        }
+        <div className="settings-info">
+          <p>Token counts and timings come from the server when it reports them; time to first token is measured in the app.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MetricsPanel
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Download, Trash2, Info, Power, Loader2, RefreshCw, X } from 'lucide-react'
+import { ModelInfo, ProviderSettings } from '../types'
+import { getProvider, ModelDetails, RunningModel } from '../providers'
+import { formatBytes, formatDate } from '../utils/format'
+
+interface ModelManagerPanelProps {
+  settings: ProviderSettings
+  models: ModelInfo[]
+  onModelsChanged: () => void
+  // A model to start pulling right away, e.g. from diagnostics
+  pullRequest?: string | null
+  onPullRequestHandled?: () => void
+}
+
+interface PullState {
+  model: string
+  status: string
+  completed?: number
+  total?: number
+}
+
+const errorText = (error: unknown) => {
+  return error instanceof Error ? error.message : 'Unknown error occurred'
+}
+
+const ModelManagerPanel: React.FC<ModelManagerPanelProps> = ({ settings, models, onModelsChanged, pullRequest, onPullRequestHandled }) => {
+  const manager = getProvider(settings.provider).modelManager
+  const [pullTag, setPullTag] = useState('')
+  const [pull, setPull] = useState<PullState | null>(null)
+  const [running, setRunning] = useState<RunningModel[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, ModelDetails>>({})
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+  const [busyModel, setBusyModel] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const pullControllerRef = useRef<AbortController | null>(null)
+
+  const refreshRunning = async () => {
+    if (!manager) return
+    try {
+      setRunning(await manager.listRunning(settings))
+    } catch (err) {
+      setRunning([])
+    }
+  }
+
+  useEffect(() => {
+    refreshRunning()
+    return () => {
+      pullControllerRef.current?.abort()
+    }
+  }, [settings.provider, settings.baseUrl])
+
+  useEffect(() => {
+    if (!pullRequest || !manager || pull) return
+    onPullRequestHandled?.()
+    startPull(pullRequest)
+  }, [pullRequest])
+
+  if (!manager) {
+    return (
+      <div className="settings-panel">
+        <div className="settings-container">
+          <div className="settings-section">
+            <h3>Models</h3>
+            <div className="model-list">
+              {
+                models.map((model) => (
+                  <div key={model.name} className="model-row">
+                    <span className="model-row-name">{model.name}</span>
+                    <span className="model-row-meta">{model.owned_by}</span>
+                  </div>
+                ))
+              }
+            </div>
+          </div>
+          <div className="settings-info">
+            <p>Pulling, deleting and unloading models is available for Ollama. Manage {getProvider(settings.provider).label} models in its own interface.</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const startPull = async (tag = pullTag) => {
+    const model = tag.trim()
+    if (!model || pull) return
+    setPullTag(model)
+    const controller = new AbortController()
+    pullControllerRef.current = controller
+    setError(null)
+    setPull({ model, status: 'starting' })
+    try {
+      for await (const progress of manager.pull(settings, model, controller.signal)) {
+        setPull({ model, ...progress })
+      }
+      setPullTag('')
+      onModelsChanged()
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(`Pull failed: ${errorText(err)}`)
+      }
+    } finally {
+      pullControllerRef.current = null
+      setPull(null)
+    }
+  }
+
+  const toggleDetails = async (model: string) => {
+    if (expanded === model) {
+      setExpanded(null)
+      return
+    }
+    setExpanded(model)
+    if (details[model]) return
+    try {
+      const info = await manager.show(settings, model)
+      setDetails(prev => ({ ...prev, [model]: info }))
+    } catch (err) {
+      setError(`Could not load details for ${model}: ${errorText(err)}`)
+    }
+  }
+
+  const removeModel = async (model: string) => {
+    if (confirmDelete !== model) {
+      setConfirmDelete(model)
+      return
+    }
+    setConfirmDelete(null)
+    setBusyModel(model)
+    try {
+      await manager.remove(settings, model)
+      onModelsChanged()
+    } catch (err) {
+      setError(`Delete failed: ${errorText(err)}`)
+    } finally {
+      setBusyModel(null)
+    }
+  }
+
+  const unloadModel = async (model: string) => {
+    setBusyModel(model)
+    try {
+      await manager.unload(settings, model)
+      await refreshRunning()
+    } catch (err) {
+      setError(`Unload failed: ${errorText(err)}`)
+    } finally {
+      setBusyModel(null)
+    }
+  }
+
+  const percent = pull?.total ? Math.round(((pull.completed || 0) / pull.total) * 100) : null
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Pull Model</h3>
+          <div className="form-group">
+            <div className="model-input-group">
+              <input
+                type="text"
+                value={pullTag}
+                onChange={(e) => setPullTag(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && startPull()}
+                placeholder="llama3.2:3b"
+                disabled={Boolean(pull)}
+              />
+              {
+                pull ? (
+                  <button
+                    type="button"
+                    className="refresh-models-btn"
+                    onClick={() => pullControllerRef.current?.abort()}
+                    title="Cancel pull"
+                  >
+                    <X size={14} />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="refresh-models-btn"
+                    onClick={() => startPull()}
+                    disabled={!pullTag.trim()}
+                    title="Pull model"
+                  >
+                    <Download size={14} />
+                  </button>
+                )
+              }
+            </div>
+            {
+              pull && (
+                <div className="pull-progress">
+                  <div className="progress-bar">
+                    <div className="progress-fill" style={{ width: `${percent ?? 0}%` }} />
+                  </div>
+                  <div className="model-info">
+                    <span>
+                      {pull.model}: {pull.status}
+                      {pull.total ? ` · ${formatBytes(pull.completed || 0)} / ${formatBytes(pull.total)} (${percent}%)` : ''}
+                    </span>
+                  </div>
+                </div>
+              )
+            }
+          </div>
+        </div>
+        <div className="settings-section">
+          <h3>Loaded in Memory</h3>
+          <div className="model-list">
+            {
+              running.length === 0 ? (
+                <div className="model-info">
+                  <span>No models are loaded right now.</span>
+                </div>
+              ) : running.map((model) => (
+                <div key={model.name} className="model-row">
+                  <span className="model-row-name">{model.name}</span>
+                  <span className="model-row-meta">
+                    {formatBytes(model.size)} total · {formatBytes(model.sizeVram)} VRAM
+                    {model.expiresAt ? ` · unloads ${new Date(model.expiresAt).toLocaleTimeString()}` : ''}
+                  </span>
+                  <button
+                    className="icon-button small"
+                    onClick={() => unloadModel(model.name)}
+                    disabled={busyModel === model.name}
+                    title="Unload from memory"
+                  >
+                    {busyModel === model.name ? <Loader2 size={12} className="animate-spin" /> : <Power size={12} />}
+                  </button>
+                </div>
+              ))
+            }
+          </div>
+          <button type="button" className="refresh-models-btn" onClick={refreshRunning} title="Refresh">
+            <RefreshCw size={14} />
+          </button>
+        </div>
+        <div className="settings-section">
+          <h3>Installed Models</h3>
+          <div className="model-list">
+            {
+              models.map((model) => (
+                <div key={model.name} className="model-entry">
+                  <div className="model-row">
+                    <span className="model-row-name">{model.name}</span>
+                    <span className="model-row-meta">
+                      {[
+                        model.size ? formatBytes(model.size) : '',
+                        model.parameterSize,
+                        model.quantization,
+                        model.modified_at ? formatDate(model.modified_at) : ''
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                    <button
+                      className={`icon-button small ${expanded === model.name ? 'active' : ''}`}
+                      onClick={() => toggleDetails(model.name)}
+                      title="Details"
+                    >
+                      <Info size={12} />
+                    </button>
+                    <button
+                      className={`icon-button small ${confirmDelete === model.name ? 'danger' : ''}`}
+                      onClick={() => removeModel(model.name)}
+                      onBlur={() => confirmDelete === model.name && setConfirmDelete(null)}
+                      disabled={busyModel === model.name}
+                      title={confirmDelete === model.name ? 'Click again to delete' : 'Delete model'}
+                    >
+                      {busyModel === model.name ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                    </button>
+                  </div>
+                  {
+                    expanded === model.name && (
+                      details[model.name] ? (
+                        <dl className="model-details">
+                          <dt>Family</dt>
+                          <dd>{details[model.name].family || '—'}</dd>
+                          <dt>Parameters</dt>
+                          <dd>{details[model.name].parameterSize || '—'}</dd>
+                          <dt>Quantization</dt>
+                          <dd>{details[model.name].quantization || '—'}</dd>
+                          <dt>Context Length</dt>
+                          <dd>{details[model.name].contextLength?.toLocaleString() || '—'}</dd>
+                          <dt>Capabilities</dt>
+                          <dd>{details[model.name].capabilities.join(', ') || '—'}</dd>
+                          {
+                            details[model.name].parameters && (
+                              <>
+                                <dt>Defaults</dt>
+                                <dd><pre>{details[model.name].parameters}</pre></dd>
+                              </>
+                            )
+                          }
+                          {
+                            details[model.name].template && (
+                              <>
+                                <dt>Template</dt>
+                                <dd><pre>{details[model.name].template}</pre></dd>
+                              </>
+                            )
+                          }
+                        </dl>
+                      ) : (
+                        <div className="model-info">
+                          <Loader2 size={12} className="animate-spin" />
+                        </div>
+                      )
+                    )
+                  }
+                </div>
+              ))
+            }
+          </div>
+          {
+            error && (
+              <div className="model-info error">
+                <span>{error}</span>
+              </div>
+            )
+          }
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ModelManagerPanel
@@ -0,0 +1,235 @@
+import React, { useRef, useState } from 'react'
+import { Download, Upload, Save, Trash2 } from 'lucide-react'
+import { GenerationParameters, ParameterPreset, ProviderId } from '../types'
+import { parsePresets, serializePresets } from '../utils/presets'
+import { saveFile, readFileAsText } from '../utils/download'
+
+interface ParametersPanelProps {
+  parameters: GenerationParameters
+  provider: ProviderId
+  presets: ParameterPreset[]
+  presetId?: string
+  onChange: (parameters: Partial<GenerationParameters>) => void
+  onApplyPreset: (preset: ParameterPreset) => void
+  onSavePreset: (name: string) => void
+  onDeletePreset: (id: string) => void
+  onImportPresets: (presets: ParameterPreset[]) => void
+}
+
+type NumericParameter = 'temperature' | 'topP' | 'topK' | 'maxTokens' | 'seed' | 'numCtx'
+
+interface NumericField {
+  key: NumericParameter
+  label: string
+  min?: number
+  max?: number
+  step?: number
+  placeholder: string
+  ollamaOnly?: boolean
+}
+
+const numericFields: NumericField[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: '0.8' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: '0.9' },
+  { key: 'topK', label: 'Top K', min: 0, step: 1, placeholder: '40' },
+  { key: 'maxTokens', label: 'Max Tokens', min: 1, step: 1, placeholder: 'Unlimited' },
+  { key: 'seed', label: 'Seed', step: 1, placeholder: 'Random' },
+  { key: 'numCtx', label: 'Context Length (num_ctx)', min: 256, step: 256, placeholder: '2048', ollamaOnly: true }
+]
+
+const ParametersPanel: React.FC<ParametersPanelProps> = ({
+  parameters,
+  provider,
+  presets,
+  presetId,
+  onChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onImportPresets
+}) => {
+  const [presetName, setPresetName] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const selectedPreset = presets.find(p => p.id === presetId)
+
+  const handleNumberChange = (key: NumericParameter, value: string) => {
+    onChange({ [key]: value === '' ? undefined : Number(value) })
+  }
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return
+    onSavePreset(presetName.trim())
+    setPresetName('')
+  }
+
+  const handleExport = () => {
+    const customPresets = presets.filter(p => !p.builtin)
+    saveFile('neallm-presets.json', serializePresets(customPresets), 'application/json')
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      onImportPresets(parsePresets(await readFileAsText(file)))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Invalid preset file')
+    }
+  }
+
+  return (
+    <div className="settings-section">
+      <h3>Generation</h3>
+      <div className="form-group">
+        <label>Preset</label>
+        <div className="model-input-group">
+          <select
+            value={presetId || ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value)
+              if (preset) onApplyPreset(preset)
+            }}
+          >
+            <option value="">Custom</option>
+            {
+              presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))
+            }
+          </select>
+          {
+            selectedPreset && !selectedPreset.builtin && (
+              <button
+                type="button"
+                className="refresh-models-btn"
+                onClick={() => onDeletePreset(selectedPreset.id)}
+                title="Delete preset"
+              >
+                <Trash2 size={14} />
+              </button>
+            )
+          }
+        </div>
+      </div>
+      <div className="form-group">
+        <label>Save Current as Preset</label>
+        <div className="model-input-group">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Preset name"
+          />
+          <button
+            type="button"
+            className="refresh-models-btn"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            title="Save preset"
+          >
+            <Save size={14} />
+          </button>
+          <button
+            type="button"
+            className="refresh-models-btn"
+            onClick={handleExport}
+            disabled={!presets.some(p => !p.builtin)}
+            title="Export presets"
+          >
+            <Download size={14} />
+          </button>
+          <button
+            type="button"
+            className="refresh-models-btn"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import presets"
+          >
+            <Upload size={14} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            hidden
+          />
+        </div>
+        {
+          importError && (
+            <div className="model-info error">
+              <span>{importError}</span>
+            </div>
+          )
+        }
+      </div>
+      <div className="form-group">
+        <label>System Prompt</label>
+        <textarea
+          value={parameters.systemPrompt}
+          onChange={(e) => onChange({ systemPrompt: e.target.value })}
+          placeholder="You are a helpful assistant."
+          rows={3}
+        />
+      </div>
+      <div className="parameter-grid">
+        {
+          numericFields
+            .filter(field => !field.ollamaOnly || provider === 'ollama')
+            .map((field) => (
+              <div key={field.key} className="form-group">
+                <label>{field.label}</label>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={parameters[field.key] ?? ''}
+                  onChange={(e) => handleNumberChange(field.key, e.target.value)}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))
+        }
+        <div className="form-group">
+          <label>Thinking</label>
+          <select
+            value={parameters.think === undefined ? '' : String(parameters.think)}
+            onChange={(e) => onChange({ think: e.target.value === '' ? undefined : e.target.value === 'true' })}
+            title="For reasoning models such as Qwen3 and DeepSeek-R1; other models ignore it"
+          >
+            <option value="">Model default</option>
+            <option value="true">On</option>
+            <option value="false">Off</option>
+          </select>
+        </div>
+        {
+          provider === 'ollama' && (
+            <div className="form-group">
+              <label>Keep Alive</label>
+              <input
+                type="text"
+                value={parameters.keepAlive || ''}
+                onChange={(e) => onChange({ keepAlive: e.target.value || undefined })}
+                placeholder="5m"
+              />
+            </div>
+          )
+        }
+      </div>
+      <div className="form-group">
+        <label>Stop Sequences (one per line)</label>
+        <textarea
+          value={parameters.stop.join('\n')}
+          onChange={(e) => onChange({ stop: e.target.value.split('\n') })}
+          rows={2}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default ParametersPanel
@@ -0,0 +1,94 @@
+import React, { useState } from 'react'
+import { Server, ChevronDown, RefreshCw, Settings2 } from 'lucide-react'
+import { ServerProfile } from '../types'
+import { getProvider } from '../providers'
+import { describeHealth, ProfileHealth } from '../utils/profiles'
+
+interface ProfileSwitcherProps {
+  profiles: ServerProfile[]
+  activeProfileId?: string
+  health: Record<string, ProfileHealth>
+  disabled: boolean
+  isManaging: boolean
+  onSelect: (profile: ServerProfile) => void
+  onCheck: () => void
+  onManage: () => void
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, health, disabled, isManaging, onSelect, onCheck, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const activeProfile = profiles.find(p => p.id === activeProfileId)
+
+  // Opening the menu refreshes every profile's status
+  const toggle = () => {
+    if (!isOpen && profiles.length > 0) onCheck()
+    setIsOpen(!isOpen)
+  }
+
+  const select = (profile: ServerProfile) => {
+    setIsOpen(false)
+    if (profile.id !== activeProfileId) onSelect(profile)
+  }
+
+  return (
+    <div className="dropdown">
+      <button
+        className={`profile-switcher ${isOpen ? 'active' : ''}`}
+        onClick={toggle}
+        title={disabled ? 'Wait for the reply to finish to switch servers' : 'Switch server'}
+        disabled={disabled}
+      >
+        <Server size={14} />
+        <span className="profile-switcher-name">{activeProfile ? activeProfile.name : 'Custom server'}</span>
+        <ChevronDown size={12} />
+      </button>
+      {
+        isOpen && (
+          <div className="dropdown-menu profile-menu">
+            {
+              profiles.length === 0 && (
+                <div className="profile-menu-empty">No saved profiles yet</div>
+              )
+            }
+            {
+              profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  className={`dropdown-item profile-menu-item ${profile.id === activeProfileId ? 'selected' : ''}`}
+                  onClick={() => select(profile)}
+                  title={`${getProvider(profile.provider).label} · ${profile.baseUrl}`}
+                >
+                  <span className={`status-dot ${health[profile.id]?.status || ''}`} />
+                  <span className="profile-menu-name">{profile.name}</span>
+                  <span className="profile-menu-status">{describeHealth(health[profile.id])}</span>
+                </button>
+              ))
+            }
+            <div className="profile-menu-actions">
+              {
+                profiles.length > 0 && (
+                  <button className="dropdown-item" onClick={onCheck}>
+                    <RefreshCw size={12} />
+                    <span>Check all</span>
+                  </button>
+                )
+              }
+              <button
+                className="dropdown-item"
+                onClick={() => {
+                  setIsOpen(false)
+                  onManage()
+                }}
+              >
+                <Settings2 size={12} />
+                <span>{isManaging ? 'Close profile manager' : 'Manage profiles'}</span>
+              </button>
+            </div>
+          </div>
+        )
+      }
+    </div>
+  )
+}
+
+export default ProfileSwitcher
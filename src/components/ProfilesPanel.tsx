@@ -0,0 +1,263 @@
+import React, { useState } from 'react'
+import { Pencil, Trash2, Play, Plus, Save, RefreshCw } from 'lucide-react'
+import { ProviderId, ServerProfile } from '../types'
+import { getProvider, providerList } from '../providers'
+import { createProfile, describeHealth, ProfileHealth } from '../utils/profiles'
+
+interface ProfilesPanelProps {
+  profiles: ServerProfile[]
+  activeProfileId?: string
+  health: Record<string, ProfileHealth>
+  isBusy: boolean
+  onUse: (profile: ServerProfile) => void
+  onSave: (profile: ServerProfile) => void
+  onSaveCurrent: (name: string) => void
+  onDelete: (id: string) => void
+  onCheck: () => void
+}
+
+interface ProfileDraft {
+  // Set when editing an existing profile
+  id?: string
+  name: string
+  provider: ProviderId
+  baseUrl: string
+  apiKey: string
+  customHeaders: string
+  defaultModel: string
+  // Seconds as typed; empty keeps the built-in limit
+  timeout: string
+}
+
+const emptyDraft: ProfileDraft = {
+  name: '',
+  provider: 'ollama',
+  baseUrl: getProvider('ollama').defaultBaseUrl,
+  apiKey: '',
+  customHeaders: '',
+  defaultModel: '',
+  timeout: ''
+}
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({
+  profiles,
+  activeProfileId,
+  health,
+  isBusy,
+  onUse,
+  onSave,
+  onSaveCurrent,
+  onDelete,
+  onCheck
+}) => {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null)
+  const [currentName, setCurrentName] = useState('')
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+  const canSave = Boolean(draft?.name.trim() && draft.baseUrl.trim())
+
+  const editProfile = (profile: ServerProfile) => {
+    setDraft({
+      id: profile.id,
+      name: profile.name,
+      provider: profile.provider,
+      baseUrl: profile.baseUrl,
+      apiKey: profile.apiKey || '',
+      customHeaders: profile.customHeaders || '',
+      defaultModel: profile.defaultModel,
+      timeout: profile.timeout ? String(profile.timeout) : ''
+    })
+  }
+
+  // A URL the user typed survives a provider change; only the previous default is swapped
+  const changeProvider = (provider: ProviderId) => {
+    if (!draft) return
+    const isDefaultUrl = !draft.baseUrl.trim() || draft.baseUrl === getProvider(draft.provider).defaultBaseUrl
+    setDraft({ ...draft, provider, baseUrl: isDefaultUrl ? getProvider(provider).defaultBaseUrl : draft.baseUrl })
+  }
+
+  const saveDraft = () => {
+    if (!draft || !canSave) return
+    const timeout = Number(draft.timeout)
+    const profile = createProfile({
+      name: draft.name.trim(),
+      provider: draft.provider,
+      baseUrl: draft.baseUrl.trim(),
+      apiKey: draft.apiKey || undefined,
+      customHeaders: draft.customHeaders.trim() || undefined,
+      defaultModel: draft.defaultModel.trim(),
+      timeout: timeout > 0 ? timeout : undefined
+    })
+    onSave(draft.id ? { ...profile, id: draft.id } : profile)
+    setDraft(null)
+  }
+
+  const saveCurrent = () => {
+    if (!currentName.trim()) return
+    onSaveCurrent(currentName.trim())
+    setCurrentName('')
+  }
+
+  const removeProfile = (id: string) => {
+    if (confirmDelete !== id) {
+      setConfirmDelete(id)
+      return
+    }
+    setConfirmDelete(null)
+    onDelete(id)
+  }
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Server Profiles</h3>
+          <div className="model-list">
+            {
+              profiles.length === 0 && (
+                <div className="model-info">
+                  <span>No saved profiles yet</span>
+                </div>
+              )
+            }
+            {
+              profiles.map((profile) => (
+                <div key={profile.id} className={`model-row profile-row ${profile.id === activeProfileId ? 'selected' : ''}`}>
+                  <span className={`status-dot ${health[profile.id]?.status || ''}`} title={describeHealth(health[profile.id])} />
+                  <span className="model-row-name">{profile.name}</span>
+                  <span className="model-row-meta">
+                    {getProvider(profile.provider).label} · {profile.baseUrl}
+                    {profile.apiKey || profile.customHeaders ? ' · auth' : ''}
+                    {' · '}{describeHealth(health[profile.id])}
+                  </span>
+                  <button
+                    className="icon-button small"
+                    onClick={() => onUse(profile)}
+                    disabled={isBusy || profile.id === activeProfileId}
+                    title={profile.id === activeProfileId ? 'In use' : 'Use in this chat'}
+                  >
+                    <Play size={12} />
+                  </button>
+                  <button className="icon-button small" onClick={() => editProfile(profile)} title="Edit">
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    className={`icon-button small ${confirmDelete === profile.id ? 'danger' : ''}`}
+                    onClick={() => removeProfile(profile.id)}
+                    onBlur={() => confirmDelete === profile.id && setConfirmDelete(null)}
+                    title={confirmDelete === profile.id ? 'Click again to delete' : 'Delete profile'}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))
+            }
+          </div>
+          <div className="model-input-group">
+            <input
+              type="text"
+              value={currentName}
+              onChange={(e) => setCurrentName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveCurrent()}
+              placeholder="Save this chat's server as..."
+            />
+            <button type="button" className="refresh-models-btn" onClick={saveCurrent} disabled={!currentName.trim()} title="Save current server">
+              <Save size={14} />
+            </button>
+            <button type="button" className="refresh-models-btn" onClick={() => setDraft(emptyDraft)} title="New profile">
+              <Plus size={14} />
+            </button>
+            <button type="button" className="refresh-models-btn" onClick={onCheck} disabled={profiles.length === 0} title="Check all profiles">
+              <RefreshCw size={14} />
+            </button>
+          </div>
+        </div>
+        {
+          draft && (
+            <div className="settings-section">
+              <h3>{draft.id ? 'Edit Profile' : 'New Profile'}</h3>
+              <div className="form-group">
+                <label>Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="GPU box"
+                  autoFocus
+                />
+              </div>
+              <div className="form-group">
+                <label>Provider Type</label>
+                <select value={draft.provider} onChange={(e) => changeProvider(e.target.value as ProviderId)}>
+                  {
+                    providerList.map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))
+                  }
+                </select>
+              </div>
+              <div className="form-group">
+                <label>Base URL</label>
+                <input
+                  type="text"
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder={getProvider(draft.provider).defaultBaseUrl}
+                />
+              </div>
+              <div className="form-group">
+                <label>API Key or Bearer Token (optional)</label>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                  placeholder="Sent as Authorization: Bearer ..."
+                  autoComplete="off"
+                />
+              </div>
+              <div className="form-group">
+                <label>Custom Headers (optional)</label>
+                <textarea
+                  value={draft.customHeaders}
+                  onChange={(e) => setDraft({ ...draft, customHeaders: e.target.value })}
+                  placeholder="X-Api-Key: secret"
+                  rows={2}
+                />
+              </div>
+              <div className="parameter-grid">
+                <div className="form-group">
+                  <label>Default Model</label>
+                  <input
+                    type="text"
+                    value={draft.defaultModel}
+                    onChange={(e) => setDraft({ ...draft, defaultModel: e.target.value })}
+                    placeholder="Keep the chat's model"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Response Timeout (s)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={10}
+                    value={draft.timeout}
+                    onChange={(e) => setDraft({ ...draft, timeout: e.target.value })}
+                    placeholder="300"
+                  />
+                </div>
+              </div>
+              <div className="message-edit-actions">
+                <button className="dropdown-item" onClick={() => setDraft(null)}>Cancel</button>
+                <button className="dropdown-item primary" onClick={saveDraft} disabled={!canSave}>Save</button>
+              </div>
+            </div>
+          )
+        }
+        <div className="settings-info">
+          <p>A profile fills in a chat's server, credentials, model and timeout. Switch between them from the server menu in the header, which also checks whether each one is reachable. Credentials stay on this device and are never exported.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProfilesPanel
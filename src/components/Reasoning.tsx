@@ -0,0 +1,31 @@
+import React from 'react'
+import { Brain, Loader2 } from 'lucide-react'
+import Markdown from './Markdown'
+
+interface ReasoningProps {
+  reasoning: string
+  // Unknown for replies saved before the duration was recorded
+  duration?: number
+  isThinking: boolean
+}
+
+const describeDuration = (duration?: number) => {
+  if (duration === undefined) return 'Reasoning'
+  return `Thought for ${Math.max(Math.round(duration / 1000), 1)} s`
+}
+
+const Reasoning: React.FC<ReasoningProps> = ({ reasoning, duration, isThinking }) => {
+  return (
+    <details className={`reasoning ${isThinking ? 'thinking' : ''}`}>
+      <summary>
+        {isThinking ? <Loader2 size={12} className="animate-spin" /> : <Brain size={12} />}
+        <span>{isThinking ? 'Thinking…' : describeDuration(duration)}</span>
+      </summary>
+      <div className="reasoning-body">
+        <Markdown content={reasoning} isStreaming={isThinking} />
+      </div>
+    </details>
+  )
+}
+
+export default Reasoning
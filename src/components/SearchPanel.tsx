@@ -0,0 +1,135 @@
+import React, { useDeferredValue, useMemo, useState } from 'react'
+import { Search, User, Bot, X } from 'lucide-react'
+import { Conversation, ProviderId } from '../types'
+import { getProvider, providerList } from '../providers'
+import { emptyFilters, SearchFilters, SearchIndex } from '../search'
+import { formatDate } from '../utils/format'
+
+interface SearchPanelProps {
+  index: SearchIndex
+  conversations: Conversation[]
+  onOpen: (conversationId: string, messageId: string) => void
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ index, conversations, onOpen }) => {
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<SearchFilters>(emptyFilters)
+  // Typing stays responsive while a large history is re-indexed and searched
+  const deferredQuery = useDeferredValue(query)
+  const deferredConversations = useDeferredValue(conversations)
+
+  const models = useMemo(() => {
+    index.sync(deferredConversations)
+    return index.listModels()
+  }, [index, deferredConversations])
+
+  const { results, total } = useMemo(() => {
+    index.sync(deferredConversations)
+    return index.search(deferredQuery, filters)
+  }, [index, deferredConversations, deferredQuery, filters])
+
+  const updateFilters = (update: Partial<SearchFilters>) => {
+    setFilters(prev => ({ ...prev, ...update }))
+  }
+
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Search History</h3>
+          <div className="search-input">
+            <Search size={14} />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='Keywords, or "an exact phrase"'
+              autoFocus
+            />
+          </div>
+          <div className="search-filters">
+            <select value={filters.role} onChange={(e) => updateFilters({ role: e.target.value as SearchFilters['role'] })}>
+              <option value="">Any role</option>
+              <option value="user">User</option>
+              <option value="assistant">Assistant</option>
+            </select>
+            <select value={filters.model} onChange={(e) => updateFilters({ model: e.target.value })}>
+              <option value="">Any model</option>
+              {
+                models.map((model) => (
+                  <option key={model} value={model}>{model}</option>
+                ))
+              }
+            </select>
+            <select value={filters.provider} onChange={(e) => updateFilters({ provider: e.target.value as ProviderId | '' })}>
+              <option value="">Any provider</option>
+              {
+                providerList.map((provider) => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))
+              }
+            </select>
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              title="From"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              title="To"
+            />
+            {
+              hasFilters && (
+                <button className="icon-button small" onClick={() => setFilters(emptyFilters)} title="Clear filters">
+                  <X size={12} />
+                </button>
+              )
+            }
+          </div>
+          {
+            (deferredQuery.trim() || hasFilters) && (
+              <div className="model-info">
+                <span>
+                  {total === 0 ? 'No matching messages.' : total > results.length ? `Showing the best ${results.length} of ${total} messages.` : `${total} message${total === 1 ? '' : 's'}.`}
+                </span>
+              </div>
+            )
+          }
+          <div className="search-results">
+            {
+              results.map((result) => (
+                <button
+                  key={`${result.conversationId}/${result.messageId}`}
+                  className="search-result"
+                  onClick={() => onOpen(result.conversationId, result.messageId)}
+                >
+                  <span className="search-result-meta">
+                    {result.role === 'user' ? <User size={12} /> : <Bot size={12} />}
+                    <span className="search-result-title">{result.conversationTitle}</span>
+                    <span>{[result.model, getProvider(result.provider).label, formatDate(result.timestamp)].filter(Boolean).join(' · ')}</span>
+                  </span>
+                  <span className="search-result-snippet">
+                    {
+                      result.snippet.map((part, i) => (
+                        part.match ? <mark key={i}>{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>
+                      ))
+                    }
+                  </span>
+                </button>
+              ))
+            }
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SearchPanel
@@ -0,0 +1,223 @@
+import React, { useState } from 'react'
+import { Lock, Loader2, Trash2 } from 'lucide-react'
+import { SecuritySettings } from '../types'
+import { PBKDF2_ITERATIONS } from '../storage/crypto'
+
+interface SecurityPanelProps {
+  isEncrypted: boolean
+  security: SecuritySettings
+  onChange: (security: SecuritySettings) => void
+  onEnable: (passphrase: string) => Promise<void>
+  onChangePassphrase: (current: string, next: string) => Promise<void>
+  onDisable: (current: string) => Promise<void>
+  onLock: () => void
+  onWipe: () => Promise<void>
+}
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+const autoLockOptions = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' }
+]
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({
+  isEncrypted,
+  security,
+  onChange,
+  onEnable,
+  onChangePassphrase,
+  onDisable,
+  onLock,
+  onWipe
+}) => {
+  const [current, setCurrent] = useState('')
+  const [next, setNext] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [confirmWipe, setConfirmWipe] = useState(false)
+  const [wipeError, setWipeError] = useState<string | null>(null)
+  const nextError = next && next.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : confirmation && next !== confirmation ? 'The passphrases do not match' : null
+  const canSetPassphrase = next.length >= MIN_PASSPHRASE_LENGTH && next === confirmation && (!isEncrypted || Boolean(current))
+
+  // Key derivation takes a moment, so every action shows progress and reports its outcome
+  const run = async (action: () => Promise<void>, done: string) => {
+    setIsWorking(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await action()
+      setCurrent('')
+      setNext('')
+      setConfirmation('')
+      setNotice(done)
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : 'Something went wrong')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const wipe = async () => {
+    if (!confirmWipe) {
+      setConfirmWipe(true)
+      return
+    }
+    setConfirmWipe(false)
+    setWipeError(null)
+    setIsWorking(true)
+    try {
+      await onWipe()
+    } catch (caught) {
+      setWipeError(caught instanceof Error ? caught.message : 'Could not erase the data')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Encryption</h3>
+          <div className={`model-info ${isEncrypted ? '' : 'error'}`}>
+            <span>{isEncrypted ? 'Chat history and settings are encrypted on this device.' : 'Chat history and settings are stored unencrypted.'}</span>
+          </div>
+          {
+            isEncrypted && (
+              <div className="form-group">
+                <label>Current Passphrase</label>
+                <input
+                  type="password"
+                  value={current}
+                  onChange={(e) => setCurrent(e.target.value)}
+                  autoComplete="current-password"
+                  disabled={isWorking}
+                />
+              </div>
+            )
+          }
+          <div className="parameter-grid">
+            <div className="form-group">
+              <label>{isEncrypted ? 'New Passphrase' : 'Passphrase'}</label>
+              <input
+                type="password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+            <div className="form-group">
+              <label>Repeat Passphrase</label>
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+          </div>
+          {
+            (nextError || error || notice) && (
+              <div className={`model-info ${nextError || error ? 'error' : ''}`}>
+                <span>{nextError || error || notice}</span>
+              </div>
+            )
+          }
+          <div className="message-edit-actions">
+            {
+              isWorking && <Loader2 size={14} className="animate-spin" />
+            }
+            {
+              isEncrypted ? (
+                <>
+                  <button
+                    className="dropdown-item"
+                    onClick={() => run(() => onDisable(current), 'Encryption turned off')}
+                    disabled={isWorking || !current}
+                  >
+                    Turn Off
+                  </button>
+                  <button
+                    className="dropdown-item primary"
+                    onClick={() => run(() => onChangePassphrase(current, next), 'Passphrase changed')}
+                    disabled={isWorking || !canSetPassphrase}
+                  >
+                    Change Passphrase
+                  </button>
+                </>
+              ) : (
+                <button
+                  className="dropdown-item primary"
+                  onClick={() => run(() => onEnable(next), 'Encryption turned on')}
+                  disabled={isWorking || !canSetPassphrase}
+                >
+                  Encrypt
+                </button>
+              )
+            }
+          </div>
+        </div>
+        {
+          isEncrypted && (
+            <div className="settings-section">
+              <h3>Lock</h3>
+              <div className="form-group">
+                <label>Auto-lock</label>
+                <div className="model-input-group">
+                  <select
+                    value={security.autoLockMinutes}
+                    onChange={(e) => onChange({ ...security, autoLockMinutes: Number(e.target.value) })}
+                  >
+                    {
+                      autoLockOptions.map(({ minutes, label }) => (
+                        <option key={minutes} value={minutes}>{label}</option>
+                      ))
+                    }
+                  </select>
+                  <button type="button" className="refresh-models-btn" onClick={onLock} title="Lock now">
+                    <Lock size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        }
+        <div className="settings-section">
+          <h3>Panic Wipe</h3>
+          <button
+            className={`dropdown-item ${confirmWipe ? 'danger' : ''}`}
+            onClick={wipe}
+            onBlur={() => setConfirmWipe(false)}
+            disabled={isWorking}
+          >
+            <Trash2 size={14} />
+            {confirmWipe ? 'Click again to erase everything' : 'Erase all conversations and data'}
+          </button>
+          {
+            wipeError && (
+              <div className="model-info error">
+                <span>{wipeError}</span>
+              </div>
+            )
+          }
+        </div>
+        <div className="settings-info">
+          <p>The passphrase is stretched with PBKDF2-SHA-256 ({PBKDF2_ITERATIONS.toLocaleString()} rounds) into an AES-GCM key that only lives in memory while unlocked. Conversations, settings, server credentials and knowledge documents are encrypted with it. A forgotten passphrase cannot be recovered. The panic wipe erases conversations, settings and documents from this device right away.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SecurityPanel
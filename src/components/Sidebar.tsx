@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react'
+import { Plus, MessageSquare, Pencil, Trash2, Check, X, Upload } from 'lucide-react'
+import { Conversation } from '../types'
+import { getProvider } from '../providers'
+import { parseConversationJson } from '../utils/export'
+import { readFileAsText } from '../utils/download'
+
+interface SidebarProps {
+  conversations: Conversation[]
+  activeConversationId: string | null
+  onCreate: () => void
+  onSelect: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  onImport: (conversation: Conversation) => void
+}
+
+const Sidebar: React.FC<SidebarProps> = ({ conversations, activeConversationId, onCreate, onSelect, onRename, onDelete, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const sortedConversations = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitRename()
+    } else if (e.key === 'Escape') {
+      setEditingId(null)
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      onImport(parseConversationJson(await readFileAsText(file)))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Invalid conversation file')
+    }
+  }
+
+  return (
+    <aside className="sidebar">
+      <div className="sidebar-actions">
+        <button className="new-chat-button" onClick={onCreate}>
+          <Plus size={14} />
+          <span>New Chat</span>
+        </button>
+        <button
+          className="icon-button"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import Chat (JSON)"
+        >
+          <Upload size={16} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          hidden
+        />
+      </div>
+      {
+        importError && (
+          <div className="sidebar-error">{importError}</div>
+        )
+      }
+      <div className="conversation-list">
+        {
+          sortedConversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`conversation-item ${conversation.id === activeConversationId ? 'active' : ''}`}
+              onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+            >
+              <MessageSquare size={14} />
+              {
+                editingId === conversation.id ? (
+                  <>
+                    <input
+                      className="conversation-title-input"
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      autoFocus
+                    />
+                    <button className="icon-button small" onClick={commitRename} title="Save">
+                      <Check size={12} />
+                    </button>
+                    <button className="icon-button small" onClick={() => setEditingId(null)} title="Cancel">
+                      <X size={12} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="conversation-text">
+                      <span className="conversation-title">{conversation.title}</span>
+                      <span className="conversation-model">
+                        {getProvider(conversation.settings.provider).label} · {conversation.settings.model}
+                      </span>
+                    </div>
+                    <button
+                      className="icon-button small"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        startRename(conversation)
+                      }}
+                      title="Rename"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      className="icon-button small"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onDelete(conversation.id)
+                      }}
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </>
+                )
+              }
+            </div>
+          ))
+        }
+      </div>
+    </aside>
+  )
+}
+
+export default Sidebar
@@ -0,0 +1,76 @@
+import React, { useState } from 'react'
+import { Braces, Pencil, X, AlertTriangle } from 'lucide-react'
+import { builtinSchemas } from '../settings'
+import { parseSchema } from '../utils/jsonSchema'
+
+interface StructuredOutputBarProps {
+  schema: string
+  onChange: (schema: string) => void
+  onClose: () => void
+}
+
+const CUSTOM = 'custom'
+
+const StructuredOutputBar: React.FC<StructuredOutputBarProps> = ({ schema, onChange, onClose }) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const { error } = parseSchema(schema)
+  const selected = !schema.trim() ? '' : builtinSchemas.find(s => s.schema === schema)?.name || CUSTOM
+
+  const select = (value: string) => {
+    if (value === CUSTOM) {
+      setIsEditing(true)
+      return
+    }
+    onChange(builtinSchemas.find(s => s.name === value)?.schema || '')
+  }
+
+  return (
+    <div className="structured-output">
+      <div className="structured-output-header">
+        <Braces size={14} />
+        <span>JSON output</span>
+        <select value={selected} onChange={(e) => select(e.target.value)}>
+          <option value="">Any JSON</option>
+          {
+            builtinSchemas.map((preset) => (
+              <option key={preset.name} value={preset.name}>{preset.name} schema</option>
+            ))
+          }
+          <option value={CUSTOM}>Custom schema</option>
+        </select>
+        <button
+          className={`icon-button small ${isEditing ? 'active' : ''}`}
+          onClick={() => setIsEditing(!isEditing)}
+          title="Edit schema"
+        >
+          <Pencil size={12} />
+        </button>
+        <button className="icon-button small" onClick={onClose} title="Turn off JSON output">
+          <X size={12} />
+        </button>
+      </div>
+      {
+        isEditing && (
+          <textarea
+            className="schema-editor"
+            value={schema}
+            onChange={(e) => onChange(e.target.value)}
+            rows={8}
+            placeholder='Paste a JSON Schema, e.g. {"type": "object", "properties": {...}}'
+            spellCheck={false}
+          />
+        )
+      }
+      {
+        error && (
+          <div className="composer-warning">
+            <AlertTriangle size={12} />
+            <span>{error}</span>
+          </div>
+        )
+      }
+    </div>
+  )
+}
+
+export default StructuredOutputBar
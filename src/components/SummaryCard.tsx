@@ -0,0 +1,31 @@
+import React from 'react'
+import { Layers, ChevronRight } from 'lucide-react'
+import { ContextSummary } from '../types'
+import Markdown from './Markdown'
+
+interface SummaryCardProps {
+  summary: ContextSummary
+  showReplaced: boolean
+  onToggleReplaced: () => void
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ summary, showReplaced, onToggleReplaced }) => {
+  return (
+    <details className="summary-card">
+      <summary>
+        <Layers size={14} />
+        <span>Summary of {summary.coveredIds.length} earlier message{summary.coveredIds.length === 1 ? '' : 's'}</span>
+        <span className="message-model">{summary.model}</span>
+      </summary>
+      <div className="summary-card-body">
+        <Markdown content={summary.content} />
+        <button className="dropdown-item" onClick={onToggleReplaced}>
+          <ChevronRight size={12} className={showReplaced ? 'rotate-90' : ''} />
+          {showReplaced ? 'Hide the replaced messages' : 'Show the replaced messages'}
+        </button>
+      </div>
+    </details>
+  )
+}
+
+export default SummaryCard
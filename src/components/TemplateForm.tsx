@@ -0,0 +1,60 @@
+import React, { useState } from 'react'
+import { FileText, X } from 'lucide-react'
+import { PromptTemplate } from '../types'
+import { extractVariables, fillTemplate } from '../utils/templates'
+
+interface TemplateFormProps {
+  template: PromptTemplate
+  onInsert: (text: string) => void
+  onCancel: () => void
+}
+
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onInsert, onCancel }) => {
+  const variables = extractVariables(template.content)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const isComplete = variables.every(name => values[name]?.trim())
+
+  const submit = () => {
+    if (isComplete) onInsert(fillTemplate(template.content, values))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      submit()
+    } else if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  return (
+    <div className="template-form" onKeyDown={handleKeyDown}>
+      <div className="template-form-header">
+        <FileText size={14} />
+        <span>{template.name}</span>
+        <button className="icon-button small" onClick={onCancel} title="Cancel">
+          <X size={12} />
+        </button>
+      </div>
+      {
+        variables.map((name, i) => (
+          <div key={name} className="form-group">
+            <label>{name}</label>
+            <textarea
+              value={values[name] || ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+              rows={Math.min(Math.max((values[name] || '').split('\n').length, 1), 8)}
+              autoFocus={i === 0}
+            />
+          </div>
+        ))
+      }
+      <div className="message-edit-actions">
+        <button className="dropdown-item" onClick={onCancel}>Cancel</button>
+        <button className="dropdown-item primary" onClick={submit} disabled={!isComplete} title="Ctrl+Enter">Insert</button>
+      </div>
+    </div>
+  )
+}
+
+export default TemplateForm
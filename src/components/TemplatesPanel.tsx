@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react'
+import { Download, Upload, Pencil, Trash2, Copy, Play, Plus } from 'lucide-react'
+import { PromptTemplate } from '../types'
+import { createTemplate, extractVariables, parseTemplates, serializeTemplates, toCommandName } from '../utils/templates'
+import { readFileAsText, saveFile } from '../utils/download'
+
+interface TemplatesPanelProps {
+  templates: PromptTemplate[]
+  onUse: (template: PromptTemplate) => void
+  onSave: (template: PromptTemplate) => void
+  onDelete: (id: string) => void
+  onImport: (templates: PromptTemplate[]) => void
+}
+
+interface TemplateDraft {
+  // Set when editing an existing custom template
+  id?: string
+  name: string
+  command: string
+  description: string
+  content: string
+}
+
+const emptyDraft: TemplateDraft = { name: '', command: '', description: '', content: '' }
+
+const TemplatesPanel: React.FC<TemplatesPanelProps> = ({ templates, onUse, onSave, onDelete, onImport }) => {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const customTemplates = templates.filter(t => !t.builtin)
+  const canSave = Boolean(draft?.name.trim() && draft.content.trim())
+
+  const editTemplate = (template: PromptTemplate, asCopy: boolean) => {
+    setDraft({
+      id: asCopy ? undefined : template.id,
+      name: asCopy ? `${template.name} (copy)` : template.name,
+      command: asCopy ? `${template.command}-copy` : template.command,
+      description: template.description || '',
+      content: template.content
+    })
+  }
+
+  const saveDraft = () => {
+    if (!draft || !canSave) return
+    const template = createTemplate({ ...draft, name: draft.name.trim() })
+    onSave(draft.id ? { ...template, id: draft.id } : template)
+    setDraft(null)
+  }
+
+  const removeTemplate = (id: string) => {
+    if (confirmDelete !== id) {
+      setConfirmDelete(id)
+      return
+    }
+    setConfirmDelete(null)
+    onDelete(id)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      onImport(parseTemplates(await readFileAsText(file)))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Invalid template file')
+    }
+  }
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-container">
+        <div className="settings-section">
+          <h3>Prompt Library</h3>
+          <div className="model-list">
+            {
+              templates.map((template) => (
+                <div key={template.id} className="model-row">
+                  <span className="model-row-name">/{template.command}</span>
+                  <span className="model-row-meta">
+                    {template.name}
+                    {extractVariables(template.content).length > 0 && ` · ${extractVariables(template.content).map(name => `{{${name}}}`).join(' ')}`}
+                  </span>
+                  <button className="icon-button small" onClick={() => onUse(template)} title="Use">
+                    <Play size={12} />
+                  </button>
+                  {
+                    template.builtin ? (
+                      <button className="icon-button small" onClick={() => editTemplate(template, true)} title="Duplicate">
+                        <Copy size={12} />
+                      </button>
+                    ) : (
+                      <>
+                        <button className="icon-button small" onClick={() => editTemplate(template, false)} title="Edit">
+                          <Pencil size={12} />
+                        </button>
+                        <button
+                          className={`icon-button small ${confirmDelete === template.id ? 'danger' : ''}`}
+                          onClick={() => removeTemplate(template.id)}
+                          onBlur={() => confirmDelete === template.id && setConfirmDelete(null)}
+                          title={confirmDelete === template.id ? 'Click again to delete' : 'Delete template'}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </>
+                    )
+                  }
+                </div>
+              ))
+            }
+          </div>
+          <div className="model-input-group">
+            <button type="button" className="refresh-models-btn" onClick={() => setDraft(emptyDraft)} title="New template">
+              <Plus size={14} />
+            </button>
+            <button
+              type="button"
+              className="refresh-models-btn"
+              onClick={() => saveFile('neallm-templates.json', serializeTemplates(customTemplates), 'application/json')}
+              disabled={customTemplates.length === 0}
+              title="Export templates"
+            >
+              <Download size={14} />
+            </button>
+            <button type="button" className="refresh-models-btn" onClick={() => fileInputRef.current?.click()} title="Import templates">
+              <Upload size={14} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              hidden
+            />
+          </div>
+          {
+            importError && (
+              <div className="model-info error">
+                <span>{importError}</span>
+              </div>
+            )
+          }
+        </div>
+        {
+          draft && (
+            <div className="settings-section">
+              <h3>{draft.id ? 'Edit Template' : 'New Template'}</h3>
+              <div className="form-group">
+                <label>Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Review this diff"
+                  autoFocus
+                />
+              </div>
+              <div className="form-group">
+                <label>Command</label>
+                <input
+                  type="text"
+                  value={draft.command}
+                  onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+                  onBlur={() => setDraft({ ...draft, command: toCommandName(draft.command) })}
+                  placeholder={toCommandName(draft.name) || 'review'}
+                />
+              </div>
+              <div className="form-group">
+                <label>Description</label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="form-group">
+                <label>Prompt</label>
+                <textarea
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  rows={6}
+                  placeholder="Translate this to {{language}}:&#10;&#10;{{text}}"
+                />
+              </div>
+              <div className="message-edit-actions">
+                <button className="dropdown-item" onClick={() => setDraft(null)}>Cancel</button>
+                <button className="dropdown-item primary" onClick={saveDraft} disabled={!canSave}>Save</button>
+              </div>
+            </div>
+          )
+        }
+        <div className="settings-info">
+          <p>Type <code>/</code> in the message box to insert a template by its command, or to run <code>/clear</code>, <code>/model &lt;name&gt;</code> and <code>/system &lt;prompt&gt;</code>. Placeholders like <code>{'{{code}}'}</code> are asked for in a form.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TemplatesPanel
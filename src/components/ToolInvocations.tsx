@@ -0,0 +1,65 @@
+import React from 'react'
+import { Wrench, Loader2, Check, X, Ban, ShieldQuestion } from 'lucide-react'
+import { ToolInvocation, ToolStatus } from '../types'
+
+interface ToolInvocationsProps {
+  invocations: ToolInvocation[]
+  onDecision: (invocationId: string, approved: boolean) => void
+}
+
+const statusIcons: Record<ToolStatus, React.ReactNode> = {
+  awaiting: <ShieldQuestion size={12} />,
+  running: <Loader2 size={12} className="animate-spin" />,
+  done: <Check size={12} />,
+  error: <X size={12} />,
+  denied: <Ban size={12} />
+}
+
+const statusLabels: Record<ToolStatus, string> = {
+  awaiting: 'Needs your approval',
+  running: 'Running',
+  done: 'Done',
+  error: 'Failed',
+  denied: 'Declined'
+}
+
+const ToolInvocations: React.FC<ToolInvocationsProps> = ({ invocations, onDecision }) => {
+  return (
+    <div className="tool-invocations">
+      {
+        invocations.map((invocation) => (
+          <details key={invocation.id} className={`tool-invocation ${invocation.status}`} open={invocation.status === 'awaiting'}>
+            <summary>
+              <Wrench size={12} />
+              <span className="tool-name">{invocation.name}</span>
+              <span className="tool-status" title={statusLabels[invocation.status]}>
+                {statusIcons[invocation.status]}
+                {statusLabels[invocation.status]}
+              </span>
+            </summary>
+            <div className="tool-section-label">Arguments</div>
+            <pre><code>{JSON.stringify(invocation.arguments, null, 2)}</code></pre>
+            {
+              invocation.result !== undefined && (
+                <>
+                  <div className="tool-section-label">Result</div>
+                  <pre><code>{invocation.result}</code></pre>
+                </>
+              )
+            }
+            {
+              invocation.status === 'awaiting' && (
+                <div className="message-edit-actions">
+                  <button className="dropdown-item" onClick={() => onDecision(invocation.id, false)}>Deny</button>
+                  <button className="dropdown-item primary" onClick={() => onDecision(invocation.id, true)}>Allow</button>
+                </div>
+              )
+            }
+          </details>
+        ))
+      }
+    </div>
+  )
+}
+
+export default ToolInvocations
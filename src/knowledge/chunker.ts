@@ -0,0 +1,30 @@
+/**
+ * Splits text into chunks of roughly `chunkSize` characters with `overlap`
+ * characters repeated between neighbours. Breaks prefer paragraph, then
+ * line, then sentence boundaries so chunks stay readable as citations.
+ */
+export const chunkText = (text: string, chunkSize: number, overlap: number): string[] => {
+  const normalized = text.replace(/\r\n/g, '\n').trim()
+  if (!normalized) return []
+  const size = Math.max(chunkSize, 100)
+  const step = Math.max(size - Math.min(overlap, size / 2), 1)
+  const chunks: string[] = []
+  let start = 0
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length)
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end)
+      const minBreak = Math.floor(size / 2)
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. ')]
+        .find(index => index >= minBreak)
+      if (breakAt !== undefined) {
+        end = start + breakAt + 1
+      }
+    }
+    const chunk = normalized.slice(start, end).trim()
+    if (chunk) chunks.push(chunk)
+    if (end >= normalized.length) break
+    start = Math.max(end - (size - step), start + 1)
+  }
+  return chunks
+}
@@ -0,0 +1,63 @@
+import { Citation, KnowledgeDocument, KnowledgeSettings, ProviderSettings } from '../types'
+import { getProvider } from '../providers'
+import { createId } from '../utils/conversations'
+import { readFileAsText } from '../utils/download'
+import { chunkText } from './chunker'
+import { retrieveChunks } from './retrieval'
+
+const EMBED_BATCH_SIZE = 16
+
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024
+
+export const indexDocument = async (
+  file: File,
+  settings: ProviderSettings,
+  knowledge: KnowledgeSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<KnowledgeDocument> => {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than 5 MB`)
+  }
+  const texts = chunkText(await readFileAsText(file), knowledge.chunkSize, knowledge.chunkOverlap)
+  if (texts.length === 0) {
+    throw new Error(`${file.name} has no text to index`)
+  }
+  const provider = getProvider(settings.provider)
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBED_BATCH_SIZE)
+    const vectors = await provider.embed(settings, knowledge.embeddingModel, batch)
+    if (vectors.length !== batch.length) {
+      throw new Error(`Embedding model returned ${vectors.length} vectors for ${batch.length} chunks`)
+    }
+    embeddings.push(...vectors)
+    onProgress?.(embeddings.length, texts.length)
+  }
+  return {
+    id: createId(),
+    name: file.name,
+    size: file.size,
+    embeddingModel: knowledge.embeddingModel,
+    chunks: texts.map((text, index) => ({ index, text, embedding: embeddings[index] })),
+    createdAt: Date.now()
+  }
+}
+
+export const searchKnowledge = async (
+  query: string,
+  documents: KnowledgeDocument[],
+  settings: ProviderSettings,
+  knowledge: KnowledgeSettings
+): Promise<Citation[]> => {
+  if (!query.trim() || !documents.some(d => d.embeddingModel === knowledge.embeddingModel)) {
+    return []
+  }
+  const [queryEmbedding] = await getProvider(settings.provider).embed(settings, knowledge.embeddingModel, [query])
+  if (!queryEmbedding) {
+    throw new Error('Embedding model returned no vector for the query')
+  }
+  return retrieveChunks(documents, queryEmbedding, knowledge.embeddingModel, knowledge.topK)
+}
+
+export { loadDocuments, saveDocument, deleteDocument } from './store'
+export { buildKnowledgePrompt } from './retrieval'
@@ -0,0 +1,48 @@
+import { Citation, KnowledgeDocument } from '../types'
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+// Only chunks embedded with the same model share a vector space with the query
+export const retrieveChunks = (
+  documents: KnowledgeDocument[],
+  queryEmbedding: number[],
+  embeddingModel: string,
+  topK: number
+): Citation[] => {
+  const scored: Omit<Citation, 'index'>[] = []
+  for (const document of documents) {
+    if (document.embeddingModel !== embeddingModel) continue
+    for (const chunk of document.chunks) {
+      scored.push({
+        documentId: document.id,
+        documentName: document.name,
+        chunkIndex: chunk.index,
+        text: chunk.text,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding)
+      })
+    }
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((citation, i) => ({ ...citation, index: i + 1 }))
+}
+
+export const buildKnowledgePrompt = (citations: Citation[], question: string) => {
+  const excerpts = citations
+    .map(citation => `[${citation.index}] ${citation.documentName} (chunk ${citation.chunkIndex + 1})\n${citation.text}`)
+    .join('\n\n')
+  return `Answer using the excerpts from local documents below when they are relevant, and cite them as [1], [2], ... If they do not contain the answer, say so.\n\n${excerpts}\n\nQuestion: ${question}`
+}
@@ -0,0 +1,19 @@
+import { KnowledgeDocument } from '../types'
+import { idbDelete, idbGetAll, idbSet } from '../storage/idb'
+import { seal, unseal } from '../storage/vault'
+
+// Vectors always live in IndexedDB, also inside VS Code, since webview state is size-limited
+export const loadDocuments = async () => {
+  const records = await idbGetAll('documents')
+  const documents = await Promise.all(records.map(record => unseal<KnowledgeDocument>(record)))
+  return documents.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+// Encrypted like the rest of the state when a passphrase is set
+export const saveDocument = async (document: KnowledgeDocument) => {
+  return idbSet('documents', document.id, await seal(document))
+}
+
+export const deleteDocument = (id: string) => {
+  return idbDelete('documents', id)
+}
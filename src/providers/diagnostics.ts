@@ -0,0 +1,215 @@
+import { ProviderId, ProviderSettings } from '../types'
+import { HttpError, REQUEST_TIMEOUT } from './http'
+import { providers } from './index'
+
+export type FailureKind =
+  | 'unreachable'
+  | 'cors'
+  | 'blocked'
+  | 'timeout'
+  | 'unauthorized'
+  | 'model-missing'
+  | 'not-found'
+  | 'server-error'
+  | 'unknown'
+
+export interface Diagnosis {
+  kind: FailureKind
+  title: string
+  detail: string
+  fixes: string[]
+  // Shell command that usually resolves the problem
+  command?: string
+  // False when nothing answered, so sending should wait for the server
+  reachable: boolean
+  // Set for `model-missing` so the UI can offer to pull it
+  model?: string
+}
+
+const startCommands: Record<ProviderId, string | undefined> = {
+  ollama: 'ollama serve',
+  lmstudio: 'lms server start',
+  openai: undefined,
+  mock: undefined
+}
+
+const corsFixes = (provider: ProviderId, origin: string): Pick<Diagnosis, 'fixes' | 'command'> => {
+  switch (provider) {
+    case 'ollama':
+      return {
+        fixes: [
+          `Allow this page's origin (${origin}) by setting OLLAMA_ORIGINS and restarting Ollama.`,
+          'On macOS run `launchctl setenv OLLAMA_ORIGINS "<origin>"` and restart the app; on Linux add `Environment="OLLAMA_ORIGINS=<origin>"` with `systemctl edit ollama.service`.'
+        ],
+        command: `OLLAMA_ORIGINS="${origin}" ollama serve`
+      }
+    case 'lmstudio':
+      return {
+        fixes: ['Turn on "Enable CORS" in the server settings of LM Studio\'s Developer tab, or restart the server with CORS enabled.'],
+        command: 'lms server start --cors'
+      }
+    default:
+      return {
+        fixes: [
+          `Allow the origin ${origin} on your server (vLLM: \`--allowed-origins\`, LocalAI: \`CORS=true\`), or put it behind a proxy that sends Access-Control-Allow-Origin.`
+        ]
+      }
+  }
+}
+
+const isLocalHost = (hostname: string) => {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
+}
+
+// A `no-cors` request succeeds with an opaque response whenever something answers, CORS or not
+const isServerReachable = async (baseUrl: string) => {
+  try {
+    await fetch(baseUrl, { mode: 'no-cors', signal: AbortSignal.timeout(REQUEST_TIMEOUT) })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+const parseUrl = (baseUrl: string) => {
+  try {
+    return new URL(baseUrl)
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Classifies a failed request into something the user can act on. Browsers
+ * report CORS rejections and a stopped server with the same opaque
+ * `TypeError`, so network failures are followed by a `no-cors` probe to
+ * tell the two apart.
+ */
+export const diagnoseFailure = async (error: unknown, settings: ProviderSettings, model?: string): Promise<Diagnosis> => {
+  const provider = providers[settings.provider]
+  const url = parseUrl(settings.baseUrl)
+  const address = url ? url.host : settings.baseUrl
+  const message = error instanceof Error ? error.message : 'Unknown error occurred'
+
+  if (!url) {
+    return {
+      kind: 'unreachable',
+      title: 'Invalid server URL',
+      detail: `"${settings.baseUrl}" is not a valid URL.`,
+      fixes: [`Set the base URL in Settings, for example ${provider.defaultBaseUrl}.`],
+      reachable: false
+    }
+  }
+
+  if (error instanceof HttpError) {
+    if (error.status === 401 || error.status === 403) {
+      return {
+        kind: 'unauthorized',
+        title: 'Not authorized',
+        detail: `${provider.label} rejected the request (${error.status}).${error.detail ? ` ${error.detail}` : ''}`,
+        fixes: provider.supportsAuth
+          ? ['Check the API key and custom headers in Settings.']
+          : ['If the server sits behind a proxy that needs credentials, add them as an API key or custom headers in Settings or its server profile.'],
+        reachable: true
+      }
+    }
+    if ((error.status === 404 || error.status === 400) && model && /model/i.test(error.detail || '') && /not (found|loaded|exist)|no such|unknown/i.test(error.detail || '')) {
+      return {
+        kind: 'model-missing',
+        title: 'Model not available',
+        detail: `${provider.label} does not have "${model}".`,
+        fixes: settings.provider === 'lmstudio'
+          ? ['Download or load the model in LM Studio, or pick another one in Settings.']
+          : provider.modelManager
+            ? ['Pull it now from the model manager, or pick another model in Settings.']
+            : ['Pick a model the server serves in Settings.'],
+        command: settings.provider === 'ollama' ? `ollama pull ${model}` : settings.provider === 'lmstudio' ? `lms get ${model}` : undefined,
+        reachable: true,
+        model
+      }
+    }
+    if (error.status === 404) {
+      return {
+        kind: 'not-found',
+        title: 'Endpoint not found',
+        detail: `Something is running on ${address}, but it does not look like ${provider.label}.`,
+        fixes: [`Check the provider and port in Settings; ${provider.label} usually listens on ${provider.defaultBaseUrl}.`],
+        reachable: true
+      }
+    }
+    if (error.status >= 500) {
+      return {
+        kind: 'server-error',
+        title: 'Server error',
+        detail: error.detail || `${provider.label} failed with status ${error.status}.`,
+        fixes: [
+          'Check the server log for the cause.',
+          'Out-of-memory errors usually go away with a smaller model, a lower-bit quantization or a smaller context window.'
+        ],
+        reachable: true
+      }
+    }
+    return {
+      kind: 'unknown',
+      title: `Request failed (${error.status})`,
+      detail: error.detail || message,
+      fixes: ['Check the generation parameters and the server log.'],
+      reachable: true
+    }
+  }
+
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return {
+      kind: 'timeout',
+      title: 'Server did not answer in time',
+      detail: `${provider.label} on ${address} took too long to respond.`,
+      fixes: [
+        'The server may be busy loading a model; wait a moment and retry.',
+        'If it keeps happening, check that the machine is not out of memory or swapping.'
+      ],
+      reachable: false
+    }
+  }
+
+  if (window.location.protocol === 'https:' && url.protocol === 'http:' && !isLocalHost(url.hostname)) {
+    return {
+      kind: 'blocked',
+      title: 'Blocked as mixed content',
+      detail: `This page is served over HTTPS, so the browser refuses plain HTTP requests to ${address}.`,
+      fixes: ['Serve the model server over HTTPS, use localhost, or open NeaLLM over HTTP.'],
+      reachable: false
+    }
+  }
+
+  if (error instanceof TypeError) {
+    if (await isServerReachable(settings.baseUrl)) {
+      return {
+        kind: 'cors',
+        title: 'Blocked by CORS',
+        detail: `${provider.label} is running on ${address} but does not allow requests from this page.`,
+        ...corsFixes(settings.provider, window.location.origin),
+        reachable: false
+      }
+    }
+    const startCommand = startCommands[settings.provider]
+    return {
+      kind: 'unreachable',
+      title: 'Server not running',
+      detail: `Nothing is answering on ${address}.`,
+      fixes: [
+        `Start ${provider.label}${startCommand ? ` (\`${startCommand}\`)` : ''} and make sure it listens on port ${url.port || (url.protocol === 'https:' ? '443' : '80')}.`,
+        ...(settings.baseUrl.replace(/\/+$/, '') !== provider.defaultBaseUrl ? [`${provider.label} listens on ${provider.defaultBaseUrl} by default; check the base URL in Settings.`] : [])
+      ],
+      command: startCommand,
+      reachable: false
+    }
+  }
+
+  return {
+    kind: 'unknown',
+    title: 'Request failed',
+    detail: message,
+    fixes: ['Check the server log and your settings.'],
+    reachable: true
+  }
+}
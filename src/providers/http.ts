@@ -0,0 +1,128 @@
+import { ProviderSettings } from '../types'
+
+export const REQUEST_TIMEOUT = 5000
+
+// Generation may wait on a model load and a long prompt before the first token
+export const FIRST_TOKEN_TIMEOUT = 5 * 60 * 1000
+
+// A profile can set its own limit in seconds
+export const getFirstTokenTimeout = (settings: ProviderSettings) => {
+  return settings.timeout ? settings.timeout * 1000 : FIRST_TOKEN_TIMEOUT
+}
+
+// Once tokens flow, a silent stream this long is treated as a dead connection
+export const STREAM_IDLE_TIMEOUT = 60 * 1000
+
+export const HEALTH_POLL_INTERVAL = 30 * 1000
+
+// First retry after the server went away; doubles up to the maximum
+export const HEALTH_RETRY_DELAY = 2000
+
+export const HEALTH_RETRY_MAX_DELAY = 60 * 1000
+
+// Custom headers are entered as one `Name: value` pair per line
+export const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    const name = line.slice(0, separator).trim()
+    const value = line.slice(separator + 1).trim()
+    if (name) headers[name] = value
+  }
+  return headers
+}
+
+export const buildHeaders = (settings: ProviderSettings, extra: Record<string, string> = {}): Record<string, string> => {
+  const headers: Record<string, string> = { ...extra }
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`
+  }
+  return { ...headers, ...parseHeaderLines(settings.customHeaders || '') }
+}
+
+// Drops unset fields so servers fall back to their own defaults
+export const compact = <T extends Record<string, any>>(fields: T): Partial<T> => {
+  const result: Partial<T> = {}
+  for (const key of Object.keys(fields) as (keyof T)[]) {
+    const value = fields[key]
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue
+    result[key] = value
+  }
+  return result
+}
+
+export const joinUrl = (baseUrl: string, path: string) => {
+  return `${baseUrl.replace(/\/+$/, '')}${path}`
+}
+
+// Transient statuses worth another attempt for requests that are safe to repeat
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504]
+
+const RETRY_ATTEMPTS = 2
+
+const RETRY_DELAY = 500
+
+// Longest server message kept in an error; some servers answer with whole HTML pages
+const MAX_DETAIL_LENGTH = 200
+
+export class HttpError extends Error {
+  status: number
+  detail?: string
+
+  constructor(status: number, detail?: string) {
+    super(`HTTP error! status: ${status}${detail ? ` (${detail})` : ''}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.detail = detail
+  }
+}
+
+const readErrorDetail = async (response: Response) => {
+  try {
+    const text = (await response.text()).trim()
+    if (!text) return undefined
+    try {
+      const data = JSON.parse(text)
+      const error = data.error?.message || data.error || data.message || data.detail
+      if (typeof error === 'string') return error.slice(0, MAX_DETAIL_LENGTH)
+    } catch (error) {
+      // Not JSON; fall through to the raw text
+    }
+    return text.startsWith('<') ? undefined : text.slice(0, MAX_DETAIL_LENGTH)
+  } catch (error) {
+    return undefined
+  }
+}
+
+// Throws an `HttpError` carrying the server's own explanation when there is one
+export const ensureOk = async (response: Response) => {
+  if (!(response.ok)) {
+    throw new HttpError(response.status, await readErrorDetail(response))
+  }
+  return response
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Fetch for idempotent requests (model lists, status, details). Each
+ * attempt gets its own `REQUEST_TIMEOUT` on top of the caller's signal,
+ * and network failures or transient statuses are retried with exponential
+ * backoff.
+ */
+export const fetchWithRetry = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const timeout = AbortSignal.timeout(REQUEST_TIMEOUT)
+      const response = await fetch(url, { ...init, signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout })
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= RETRY_ATTEMPTS) {
+        return response
+      }
+    } catch (error) {
+      // Stopped by the caller, which is not worth another attempt
+      if (attempt >= RETRY_ATTEMPTS || init.signal?.aborted) throw error
+    }
+    await sleep(RETRY_DELAY * 2 ** attempt)
+  }
+}
@@ -0,0 +1,20 @@
+import { ProviderId } from '../types'
+import { ollamaAdapter } from './ollama'
+import { lmstudioAdapter, openaiCompatibleAdapter } from './openai'
+import { mockAdapter } from './mock'
+import { ProviderAdapter } from './types'
+
+export const providers: Record<ProviderId, ProviderAdapter> = {
+  ollama: ollamaAdapter,
+  lmstudio: lmstudioAdapter,
+  openai: openaiCompatibleAdapter,
+  mock: mockAdapter
+}
+
+export const providerList = Object.values(providers)
+
+export const getProvider = (id: ProviderId) => {
+  return providers[id] || ollamaAdapter
+}
+
+export type { ProviderAdapter, ChatRequest, ChatChunk, ChatResult, ChatUsage, ResponseFormat, ToolDefinition, ModelManager, ModelDetails, PullProgress, RunningModel } from './types'
@@ -0,0 +1,328 @@
+import { ChatTurn, ModelInfo, ProviderSettings, ToolCall } from '../types'
+import { estimateTokens } from '../utils/history'
+import { createId } from '../utils/conversations'
+import { readNdjson } from '../utils/stream'
+import { HttpError, REQUEST_TIMEOUT } from './http'
+import { createReasoningSplitter } from './reasoning'
+import { ChatChunk, ChatRequest, ChatResult, ChatUsage, ProviderAdapter, ToolDefinition } from './types'
+
+export type MockFailure = 'unreachable' | 'timeout' | 'not-found' | 'server-error' | 'malformed' | 'disconnect'
+
+const FAILURES: MockFailure[] = ['unreachable', 'timeout', 'not-found', 'server-error', 'malformed', 'disconnect']
+
+/**
+ * Behavior of the mock server, read from the query of its base URL, e.g.
+ * `mock://local?latency=80&fail=disconnect&rate=0.5`.
+ */
+export interface MockOptions {
+  // Milliseconds between streamed tokens
+  latency: number
+  // Milliseconds before the first token, on top of a one-time model load
+  firstToken: number
+  fail?: MockFailure
+  // Share of generations that fail, from 0 to 1
+  rate: number
+  // Milliseconds a `timeout` failure waits before giving up
+  timeout: number
+}
+
+const DEFAULT_LATENCY = 30
+
+const DEFAULT_FIRST_TOKEN = 300
+
+// Added to the first reply of each model, like a server loading weights
+const LOAD_DELAY = 800
+
+// Tokens streamed before a `malformed` or `disconnect` failure hits
+const TOKENS_BEFORE_FAILURE = 12
+
+const EMBEDDING_SIZE = 256
+
+const mockModels: (ModelInfo & { capabilities: string[] })[] = [
+  { name: 'mock-scripted', size: 2_200_000_000, parameterSize: '3.8B', quantization: 'Q4_K_M', capabilities: ['completion'] },
+  { name: 'mock-echo', size: 640_000_000, parameterSize: '1B', quantization: 'Q8_0', capabilities: ['completion', 'vision'] },
+  { name: 'mock-reasoner', size: 4_700_000_000, parameterSize: '8B', quantization: 'Q4_K_M', capabilities: ['completion', 'thinking'] },
+  { name: 'mock-tools', size: 4_100_000_000, parameterSize: '7B', quantization: 'Q4_K_M', capabilities: ['completion', 'tools'] },
+  { name: 'nomic-embed-text', size: 274_000_000, parameterSize: '137M', quantization: 'F16', capabilities: ['embedding'] }
+]
+
+// Markdown that exercises the renderer: code, tables, lists, diagrams and long text
+const scriptedReplies = [
+  'Here is a small TypeScript helper:\n\n```ts\nexport const debounce = <T extends unknown[]>(fn: (...args: T) => void, ms: number) => {\n  let timer: ReturnType<typeof setTimeout> | undefined\n  return (...args: T) => {\n    clearTimeout(timer)\n    timer = setTimeout(() => fn(...args), ms)\n  }\n}\n```\n\nCall it with the function and the delay in milliseconds.',
+  '| Model | Size | Speed |\n| --- | --- | --- |\n| mock-echo | 1B | fast |\n| mock-scripted | 3.8B | medium |\n| mock-reasoner | 8B | slow |\n\nSmaller models answer faster but know less.',
+  'A request goes through these steps:\n\n```mermaid\ngraph LR\n  A[Composer] --> B[History]\n  B --> C[Provider]\n  C --> D[Stream]\n  D --> E[Message]\n```\n\n1. The composer builds the prompt.\n2. The history is trimmed to fit the context.\n3. The provider streams the reply back.',
+  'This reply is intentionally long so scrolling, the context meter and summaries have something to work with. '.repeat(12).trim()
+]
+
+const readOptions = (settings: ProviderSettings): MockOptions => {
+  const query = new URLSearchParams(settings.baseUrl.split('?')[1] || '')
+  const number = (name: string, fallback: number) => {
+    const value = Number(query.get(name))
+    return query.has(name) && Number.isFinite(value) && value >= 0 ? value : fallback
+  }
+  const fail = query.get('fail') as MockFailure | null
+  return {
+    latency: number('latency', DEFAULT_LATENCY),
+    firstToken: number('firstToken', DEFAULT_FIRST_TOKEN),
+    fail: fail && FAILURES.includes(fail) ? fail : undefined,
+    rate: Math.min(number('rate', 1), 1),
+    timeout: number('timeout', REQUEST_TIMEOUT)
+  }
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+// The error `AbortSignal.timeout` raises in the HTTP layer
+const timeoutError = () => new DOMException('The operation timed out.', 'TimeoutError')
+
+// Waits `ms` unless the signal aborts first
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError())
+    return
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(abortError())
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+// What browsers throw when nothing listens on the port
+const connectionRefused = () => new TypeError('Failed to fetch')
+
+const findModel = (name: string) => mockModels.find(m => m.name === name)
+
+// Failures that stop a request before any token; `malformed` and `disconnect` hit mid-stream
+const checkRequest = (options: MockOptions, request: ChatRequest) => {
+  if (options.fail === 'unreachable') throw connectionRefused()
+  if (!findModel(request.model)) {
+    throw new HttpError(404, `model "${request.model}" not found, try pulling it first`)
+  }
+  const failure = options.fail && Math.random() < options.rate ? options.fail : undefined
+  if (failure === 'not-found') {
+    throw new HttpError(404, `model "${request.model}" not found, try pulling it first`)
+  }
+  if (failure === 'server-error') {
+    throw new HttpError(500, 'llama runner process has terminated: signal: killed (simulated)')
+  }
+  return failure
+}
+
+const loadedModels = new Set<string>()
+
+const takeLoadDelay = (model: string) => {
+  if (loadedModels.has(model)) return 0
+  loadedModels.add(model)
+  return LOAD_DELAY
+}
+
+// An example value for a JSON Schema; string fields get `text` so replies stay on topic
+const sampleFromSchema = (schema: any, text: string): unknown => {
+  if (!schema || typeof schema !== 'object') return text
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0]
+  if ('const' in schema) return schema.const
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  switch (type) {
+    case 'object': {
+      const properties: Record<string, unknown> = schema.properties || {}
+      return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, sampleFromSchema(value, text)]))
+    }
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems || 0, 1) }, () => sampleFromSchema(schema.items, text))
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1
+    case 'boolean':
+      return true
+    case 'null':
+      return null
+    default:
+      return text
+  }
+}
+
+const lastUserText = (messages: ChatTurn[]) => {
+  return [...messages].reverse().find(m => m.role === 'user')?.content.trim() || ''
+}
+
+// The tool named in the message, or the first one offered; text after a colon becomes its string arguments
+const pickToolCall = (tools: ToolDefinition[], text: string): ToolCall => {
+  const lower = text.toLowerCase()
+  const tool = tools.find(t => lower.includes(t.name.toLowerCase()) || lower.includes(t.name.replace(/_/g, ' ').toLowerCase())) || tools[0]
+  const argumentText = text.includes(':') ? text.slice(text.indexOf(':') + 1).trim() : text
+  const args = sampleFromSchema({ type: 'object', ...tool.parameters }, argumentText) as Record<string, unknown>
+  return { id: createId(), name: tool.name, arguments: args }
+}
+
+interface MockReply {
+  content: string
+  toolCalls?: ToolCall[]
+}
+
+const buildReply = (request: ChatRequest): MockReply => {
+  const text = lastUserText(request.messages)
+  const last = request.messages[request.messages.length - 1]
+  if (request.model === 'mock-tools') {
+    if (last?.role === 'tool') {
+      return { content: `The \`${last.toolName}\` tool returned:\n\n\`\`\`\n${last.content.slice(0, 500)}\n\`\`\`` }
+    }
+    if (request.tools?.length) {
+      return { content: '', toolCalls: [pickToolCall(request.tools, text)] }
+    }
+  }
+  if (request.format) {
+    const value = request.format.schema ? sampleFromSchema(request.format.schema, text) : { reply: text }
+    return { content: JSON.stringify(value, null, 2) }
+  }
+  switch (request.model) {
+    case 'mock-echo': {
+      const images = request.messages[request.messages.length - 1]?.images?.length || 0
+      return { content: `You said: ${text || '(nothing)'}${images > 0 ? `\n\n_${images} image${images === 1 ? '' : 's'} attached._` : ''}` }
+    }
+    case 'mock-reasoner': {
+      const answer = `My answer to "${text.slice(0, 80)}" is 42.`
+      return {
+        content: request.parameters?.think === false
+          ? answer
+          : `<think>\nThe user asked: ${text.slice(0, 200)}\nLet me weigh the options step by step before answering.\n</think>\n\n${answer}`
+      }
+    }
+    default: {
+      const turns = request.messages.filter(m => m.role === 'user').length
+      return { content: scriptedReplies[(turns - 1 + scriptedReplies.length) % scriptedReplies.length] }
+    }
+  }
+}
+
+// Word-sized pieces with their leading whitespace, roughly how models stream
+const splitTokens = (text: string) => text.match(/\s*\S{1,12}|\s+$/g) || []
+
+const buildUsage = (request: ChatRequest, content: string, startedAt: number, evalStartedAt: number, loadDuration: number): ChatUsage => {
+  const finishedAt = Date.now()
+  return {
+    promptTokens: request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    completionTokens: splitTokens(content).length,
+    evalDuration: finishedAt - evalStartedAt,
+    loadDuration: loadDuration || undefined,
+    totalDuration: finishedAt - startedAt
+  }
+}
+
+/**
+ * A response whose body streams the reply as NDJSON chunks, so the mock
+ * goes through the same line parsing as a real server and can corrupt or
+ * cut the stream midway.
+ */
+const streamResponse = (request: ChatRequest, options: MockOptions, failure: MockFailure | undefined) => {
+  const encoder = new TextEncoder()
+  const reply = buildReply(request)
+  const startedAt = Date.now()
+  return new Response(new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      const send = (chunk: ChatChunk) => controller.enqueue(encoder.encode(`${JSON.stringify(chunk)}\n`))
+      try {
+        const loadDuration = takeLoadDelay(request.model)
+        await sleep(failure === 'timeout' ? options.timeout : loadDuration + options.firstToken, request.signal)
+        if (failure === 'timeout') throw timeoutError()
+        const evalStartedAt = Date.now()
+        const tokens = splitTokens(reply.content)
+        for (let i = 0; i < tokens.length; i++) {
+          if (i === TOKENS_BEFORE_FAILURE && failure === 'malformed') {
+            controller.enqueue(encoder.encode('{"content": "unterminated\n'))
+            controller.close()
+            return
+          }
+          if (i === TOKENS_BEFORE_FAILURE && failure === 'disconnect') {
+            throw new TypeError('network error')
+          }
+          send({ content: tokens[i] })
+          await sleep(options.latency, request.signal)
+        }
+        send({ content: '', done: true, toolCalls: reply.toolCalls, usage: buildUsage(request, reply.content, startedAt, evalStartedAt, loadDuration) })
+        controller.close()
+      } catch (error) {
+        controller.error(error)
+      }
+    }
+  }))
+}
+
+// Deterministic bag-of-words vectors, enough for retrieval to find shared words
+const embedText = (text: string) => {
+  const vector = new Array<number>(EMBEDDING_SIZE).fill(0)
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    let hash = 0
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) | 0
+    }
+    vector[Math.abs(hash) % EMBEDDING_SIZE] += 1
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+  return vector.map(value => value / norm)
+}
+
+export const mockAdapter: ProviderAdapter = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultBaseUrl: 'mock://local',
+  supportsAuth: false,
+
+  listModels: async (settings) => {
+    if (readOptions(settings).fail === 'unreachable') throw connectionRefused()
+    const modifiedAt = new Date().toISOString()
+    return mockModels.map(({ capabilities: _capabilities, ...model }) => ({ ...model, modified_at: modifiedAt }))
+  },
+
+  healthCheck: async (settings) => {
+    if (readOptions(settings).fail === 'unreachable') throw connectionRefused()
+    return true
+  },
+
+  getModelCapabilities: async (_settings, model) => {
+    return findModel(model)?.capabilities || null
+  },
+
+  embed: async (settings, model, input) => {
+    if (readOptions(settings).fail === 'unreachable') throw connectionRefused()
+    if (!findModel(model)) throw new HttpError(404, `model "${model}" not found, try pulling it first`)
+    return input.map(embedText)
+  },
+
+  chat: async (settings, request): Promise<ChatResult> => {
+    const options = readOptions(settings)
+    const failure = checkRequest(options, request)
+    const startedAt = Date.now()
+    const loadDuration = takeLoadDelay(request.model)
+    await sleep(failure === 'timeout' ? options.timeout : loadDuration + options.firstToken, request.signal)
+    if (failure === 'timeout') throw timeoutError()
+    if (failure === 'malformed') {
+      throw new SyntaxError('Unexpected end of JSON input')
+    }
+    if (failure === 'disconnect') {
+      throw new TypeError('network error')
+    }
+    const reply = buildReply(request)
+    const { content, reasoning } = createReasoningSplitter().push(reply.content, true)
+    return {
+      content,
+      reasoning: reasoning.trim() || undefined,
+      toolCalls: reply.toolCalls,
+      usage: buildUsage(request, reply.content, startedAt, startedAt, loadDuration)
+    }
+  },
+
+  stream: async function* (settings, request) {
+    const options = readOptions(settings)
+    const failure = checkRequest(options, request)
+    const splitter = createReasoningSplitter()
+    for await (const chunk of readNdjson<ChatChunk>(streamResponse(request, options, failure))) {
+      const { content, reasoning } = splitter.push(chunk.content, chunk.done)
+      yield { ...chunk, content, reasoning: reasoning || undefined }
+    }
+  }
+}
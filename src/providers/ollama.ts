@@ -0,0 +1,239 @@
+import { ChatTurn, GenerationParameters, ModelInfo, ProviderSettings } from '../types'
+import { readNdjson } from '../utils/stream'
+import { buildHeaders, compact, ensureOk, fetchWithRetry, joinUrl, REQUEST_TIMEOUT } from './http'
+import { ChatRequest, ChatUsage, ModelManager, ProviderAdapter } from './types'
+import { toFunctionTools, toToolCall } from './tools'
+import { createReasoningSplitter, splitReasoning } from './reasoning'
+
+const toOptions = (parameters?: GenerationParameters) => {
+  if (!parameters) return {}
+  return compact({
+    temperature: parameters.temperature,
+    top_p: parameters.topP,
+    top_k: parameters.topK,
+    num_predict: parameters.maxTokens,
+    seed: parameters.seed,
+    stop: parameters.stop.filter(Boolean),
+    num_ctx: parameters.numCtx
+  })
+}
+
+// Ollama takes images as bare base64 strings next to the text
+const toOllamaMessage = ({ role, content, images, toolCalls, toolName }: ChatTurn) => ({
+  role,
+  content,
+  ...(images && { images: images.map(image => image.data) }),
+  ...(toolCalls && { tool_calls: toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })) }),
+  ...(toolName && { tool_name: toolName })
+})
+
+const toolCallsOf = (message: any) => {
+  const calls = message?.tool_calls
+  return Array.isArray(calls) && calls.length > 0 ? calls.map(toToolCall) : undefined
+}
+
+// Ollama reports durations in nanoseconds
+const toMilliseconds = (nanoseconds?: number) => {
+  return typeof nanoseconds === 'number' ? nanoseconds / 1e6 : undefined
+}
+
+const usageOf = (data: any): ChatUsage => ({
+  promptTokens: data.prompt_eval_count,
+  completionTokens: data.eval_count,
+  evalDuration: toMilliseconds(data.eval_duration),
+  loadDuration: toMilliseconds(data.load_duration),
+  totalDuration: toMilliseconds(data.total_duration)
+})
+
+const buildChatBody = (request: ChatRequest, stream: boolean) => {
+  return JSON.stringify({
+    model: request.model,
+    messages: request.messages.map(toOllamaMessage),
+    stream,
+    options: toOptions(request.parameters),
+    ...compact({
+      keep_alive: request.parameters?.keepAlive,
+      think: request.parameters?.think,
+      tools: toFunctionTools(request.tools),
+      // Ollama takes `"json"` for free-form JSON or the schema itself
+      format: request.format && (request.format.schema || 'json')
+    })
+  })
+}
+
+const fetchShow = async (settings: ProviderSettings, model: string) => {
+  const response = await ensureOk(await fetchWithRetry(joinUrl(settings.baseUrl, '/api/show'), {
+    method: 'POST',
+    headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ model })
+  }))
+  return response.json()
+}
+
+const capabilitiesOf = (data: any): string[] => {
+  if (Array.isArray(data.capabilities)) {
+    return data.capabilities
+  }
+  // Older Ollama versions only expose the CLIP projector family
+  const families: string[] = data.details?.families || []
+  return families.includes('clip') || data.projector_info ? ['completion', 'vision'] : ['completion']
+}
+
+const ollamaModelManager: ModelManager = {
+  pull: async function* (settings, model, signal) {
+    const response = await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/pull'), {
+      method: 'POST',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ model, stream: true }),
+      signal
+    }))
+    for await (const chunk of readNdjson(response)) {
+      if (chunk.error) {
+        throw new Error(chunk.error)
+      }
+      yield { status: chunk.status || '', completed: chunk.completed, total: chunk.total }
+    }
+  },
+
+  remove: async (settings, model) => {
+    await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/delete'), {
+      method: 'DELETE',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ model })
+    }))
+  },
+
+  show: async (settings, model) => {
+    const data = await fetchShow(settings, model)
+    const modelInfo = data.model_info || {}
+    const architecture = modelInfo['general.architecture']
+    return {
+      family: data.details?.family,
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+      contextLength: architecture ? modelInfo[`${architecture}.context_length`] : undefined,
+      parameters: data.parameters,
+      template: data.template,
+      license: data.license,
+      capabilities: capabilitiesOf(data)
+    }
+  },
+
+  listRunning: async (settings) => {
+    const response = await ensureOk(await fetchWithRetry(joinUrl(settings.baseUrl, '/api/ps'), {
+      method: 'GET',
+      headers: buildHeaders(settings)
+    }))
+    const data = await response.json()
+    return (data.models || []).map((model: any) => ({
+      name: model.name || model.model,
+      size: model.size || 0,
+      sizeVram: model.size_vram || 0,
+      expiresAt: model.expires_at
+    }))
+  },
+
+  // A request with `keep_alive: 0` and no prompt evicts the model from memory
+  unload: async (settings, model) => {
+    await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/generate'), {
+      method: 'POST',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ model, keep_alive: 0 })
+    }))
+  }
+}
+
+export const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama',
+  defaultBaseUrl: 'http://localhost:11434',
+  supportsAuth: false,
+
+  listModels: async (settings) => {
+    const response = await ensureOk(await fetchWithRetry(joinUrl(settings.baseUrl, '/api/tags'), {
+      method: 'GET',
+      headers: buildHeaders(settings)
+    }))
+    const data = await response.json()
+    return data.models?.map((model: any): ModelInfo => ({
+      name: model.name,
+      size: model.size,
+      modified_at: model.modified_at,
+      parameterSize: model.details?.parameter_size,
+      quantization: model.details?.quantization_level
+    })) || []
+  },
+
+  healthCheck: async (settings) => {
+    await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/tags'), {
+      method: 'GET',
+      headers: buildHeaders(settings),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    }))
+    return true
+  },
+
+  getModelCapabilities: async (settings, model) => {
+    return capabilitiesOf(await fetchShow(settings, model))
+  },
+
+  embed: async (settings, model, input) => {
+    const response = await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/embed'), {
+      method: 'POST',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ model, input })
+    }))
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(data.error)
+    }
+    return data.embeddings || []
+  },
+
+  chat: async (settings, request) => {
+    const response = await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/chat'), {
+      method: 'POST',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: buildChatBody(request, false),
+      signal: request.signal
+    }))
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(data.error)
+    }
+    const { content, reasoning } = splitReasoning(data.message?.content || '')
+    return {
+      content,
+      reasoning: (data.message?.thinking || '') + reasoning || undefined,
+      usage: usageOf(data),
+      toolCalls: toolCallsOf(data.message)
+    }
+  },
+
+  stream: async function* (settings, request) {
+    const response = await ensureOk(await fetch(joinUrl(settings.baseUrl, '/api/chat'), {
+      method: 'POST',
+      headers: buildHeaders(settings, { 'Content-Type': 'application/json' }),
+      body: buildChatBody(request, true),
+      signal: request.signal
+    }))
+    // Newer Ollama versions send reasoning as `thinking`; older ones leave `<think>` tags in the content
+    const splitter = createReasoningSplitter()
+    for await (const chunk of readNdjson(response)) {
+      if (chunk.error) {
+        throw new Error(chunk.error)
+      }
+      const { content, reasoning } = splitter.push(chunk.message?.content || '', chunk.done)
+      yield {
+        content,
+        reasoning: (chunk.message?.thinking || '') + reasoning || undefined,
+        done: chunk.done,
+        usage: chunk.done ? usageOf(chunk) : undefined,
+        toolCalls: toolCallsOf(chunk.message)
+      }
+      if (chunk.done) break
+    }
+  },
+
+  modelManager: ollamaModelManager
+}
@@ -0,0 +1,253 @@
+import { ChatTurn, GenerationParameters, ModelInfo, ProviderId, ProviderSettings } from '../types'
+import { readSse } from '../utils/stream'
+import { buildHeaders, compact, ensureOk, fetchWithRetry, joinUrl } from './http'
+import { ChatRequest, ChatUsage, ProviderAdapter, ResponseFormat } from './types'
+import { toFunctionTools, toToolCall } from './tools'
+import { createReasoningSplitter, splitReasoning } from './reasoning'
+
+interface OpenAIAdapterOptions {
+  id: ProviderId
+  label: string
+  defaultBaseUrl: string
+  supportsAuth: boolean
+  getModelCapabilities?: ProviderAdapter['getModelCapabilities']
+}
+
+// Accepts base URLs both with and without the trailing `/v1`
+const apiUrl = (settings: ProviderSettings, path: string) => {
+  return joinUrl(settings.baseUrl.replace(/\/+$/, '').replace(/\/v1$/, ''), `/v1${path}`)
+}
+
+const toModelInfo = (model: any): ModelInfo => ({
+  name: model.id || model.name || 'Unknown Model',
+  owned_by: model.owned_by || model.object || 'model'
+})
+
+const fetchModels = (settings: ProviderSettings) => {
+  return fetchWithRetry(apiUrl(settings, '/models'), {
+    method: 'GET',
+    headers: buildHeaders(settings, {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    }),
+    mode: 'cors'
+  })
+}
+
+// `top_k` is not part of the OpenAI API but llama.cpp, vLLM and LM Studio accept it
+const toRequestFields = (parameters?: GenerationParameters) => {
+  if (!parameters) return {}
+  return compact({
+    temperature: parameters.temperature,
+    top_p: parameters.topP,
+    top_k: parameters.topK,
+    max_tokens: parameters.maxTokens,
+    seed: parameters.seed,
+    stop: parameters.stop.filter(Boolean)
+  })
+}
+
+// Images become `image_url` content parts carrying a data URL
+const toOpenAIMessage = ({ role, content, images, toolCalls, toolCallId }: ChatTurn) => {
+  if (toolCalls) {
+    return {
+      role,
+      content: content || null,
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    }
+  }
+  if (toolCallId) {
+    return { role, content, tool_call_id: toolCallId }
+  }
+  if (!images || images.length === 0) {
+    return { role, content }
+  }
+  return {
+    role,
+    content: [
+      { type: 'text', text: content },
+      ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+    ]
+  }
+}
+
+const toResponseFormat = (format?: ResponseFormat) => {
+  if (!format) return undefined
+  if (!format.schema) return { type: 'json_object' }
+  // No `strict`: strict servers reject schemas that leave out `additionalProperties: false` or any `required` key
+  return { type: 'json_schema', json_schema: { name: 'response', schema: format.schema } }
+}
+
+const buildChatBody = (request: ChatRequest, stream: boolean) => {
+  return JSON.stringify({
+    model: request.model,
+    messages: request.messages.map(toOpenAIMessage),
+    stream,
+    // Asks for a final chunk carrying `usage`; servers that don't know the option ignore it
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    ...toRequestFields(request.parameters),
+    ...compact({
+      tools: toFunctionTools(request.tools),
+      response_format: toResponseFormat(request.format),
+      // Read by the chat templates of Qwen3 and similar models on vLLM and llama.cpp
+      chat_template_kwargs: request.parameters?.think === undefined ? undefined : { enable_thinking: request.parameters.think }
+    })
+  })
+}
+
+const usageOf = (usage: any): ChatUsage | undefined => {
+  if (!usage) return undefined
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens }
+}
+
+// DeepSeek's API, vLLM and LM Studio use `reasoning_content`, others `reasoning`
+const reasoningOf = (message: any): string => {
+  return message?.reasoning_content || message?.reasoning || ''
+}
+
+const errorMessage = (error: any) => {
+  return typeof error === 'string' ? error : error?.message || 'Unknown error occurred'
+}
+
+/**
+ * Builds an adapter for servers speaking the OpenAI REST dialect
+ * (LM Studio, llama.cpp server, vLLM, LocalAI, ...).
+ */
+export const createOpenAIAdapter = ({ getModelCapabilities, ...options }: OpenAIAdapterOptions): ProviderAdapter => ({
+  ...options,
+
+  getModelCapabilities: getModelCapabilities || (async () => null),
+
+  listModels: async (settings) => {
+    const response = await ensureOk(await fetchModels(settings))
+    const data = await response.json()
+    if (data.data && Array.isArray(data.data)) {
+      return data.data.map(toModelInfo)
+    } else if (Array.isArray(data)) {
+      return data.map(toModelInfo)
+    }
+    return []
+  },
+
+  healthCheck: async (settings) => {
+    await ensureOk(await fetchModels(settings))
+    return true
+  },
+
+  embed: async (settings, model, input) => {
+    const response = await ensureOk(await fetch(apiUrl(settings, '/embeddings'), {
+      method: 'POST',
+      headers: buildHeaders(settings, {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      }),
+      mode: 'cors',
+      body: JSON.stringify({ model, input })
+    }))
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(errorMessage(data.error))
+    }
+    return [...(data.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding)
+  },
+
+  chat: async (settings, request) => {
+    const response = await ensureOk(await fetch(apiUrl(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: buildHeaders(settings, {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      }),
+      mode: 'cors',
+      body: buildChatBody(request, false),
+      signal: request.signal
+    }))
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(errorMessage(data.error))
+    }
+    const message = data.choices?.[0]?.message
+    const { content, reasoning } = splitReasoning(message?.content || '')
+    return {
+      content,
+      reasoning: reasoningOf(message) + reasoning || undefined,
+      usage: usageOf(data.usage),
+      toolCalls: message?.tool_calls?.length ? message.tool_calls.map(toToolCall) : undefined
+    }
+  },
+
+  stream: async function* (settings, request) {
+    const response = await ensureOk(await fetch(apiUrl(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: buildHeaders(settings, {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      }),
+      mode: 'cors',
+      body: buildChatBody(request, true),
+      signal: request.signal
+    }))
+    // Tool calls stream in fragments keyed by index and are emitted once complete
+    const toolCalls = new Map<number, { id?: string, function: { name: string, arguments: string } }>()
+    const splitter = createReasoningSplitter()
+    for await (const chunk of readSse(response)) {
+      if (chunk.error) {
+        throw new Error(errorMessage(chunk.error))
+      }
+      const choice = chunk.choices?.[0]
+      for (const delta of choice?.delta?.tool_calls || []) {
+        const call = toolCalls.get(delta.index ?? 0) || { function: { name: '', arguments: '' } }
+        if (delta.id) call.id = delta.id
+        if (delta.function?.name) call.function.name = delta.function.name
+        if (delta.function?.arguments) call.function.arguments += delta.function.arguments
+        toolCalls.set(delta.index ?? 0, call)
+      }
+      const { content, reasoning } = splitter.push(choice?.delta?.content || '')
+      yield {
+        content,
+        reasoning: reasoningOf(choice?.delta) + reasoning || undefined,
+        done: Boolean(choice?.finish_reason),
+        usage: usageOf(chunk.usage)
+      }
+    }
+    // Releases text held back in case it was the start of a tag
+    const rest = splitter.push('', true)
+    if (rest.content || rest.reasoning) {
+      yield { content: rest.content, reasoning: rest.reasoning || undefined }
+    }
+    if (toolCalls.size > 0) {
+      yield { content: '', done: true, toolCalls: Array.from(toolCalls.values()).map(toToolCall) }
+    }
+  }
+})
+
+export const lmstudioAdapter = createOpenAIAdapter({
+  id: 'lmstudio',
+  label: 'LM Studio',
+  defaultBaseUrl: 'http://localhost:1234',
+  supportsAuth: false,
+  // LM Studio's native REST API reports vision models as type `vlm`
+  getModelCapabilities: async (settings, model) => {
+    const response = await fetchWithRetry(joinUrl(settings.baseUrl.replace(/\/v1\/?$/, ''), `/api/v0/models/${encodeURIComponent(model)}`), {
+      method: 'GET',
+      headers: buildHeaders(settings, { 'Accept': 'application/json' }),
+      mode: 'cors'
+    })
+    if (!(response.ok)) return null
+    const data = await response.json()
+    return data.type === 'vlm' ? ['completion', 'vision'] : ['completion']
+  }
+})
+
+export const openaiCompatibleAdapter = createOpenAIAdapter({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultBaseUrl: 'http://localhost:8080',
+  supportsAuth: true
+})
@@ -0,0 +1,67 @@
+const OPEN_TAG = '<think>'
+const CLOSE_TAG = '</think>'
+
+export interface ReasoningParts {
+  content: string
+  reasoning: string
+}
+
+/**
+ * Splits inline `<think>...</think>` reasoning (DeepSeek-R1, QwQ, Qwen3)
+ * out of streamed text. A block only counts at the very start of a reply,
+ * so answers that merely mention the tag are left alone. Text that could
+ * still turn out to be part of a tag is held back until the next push,
+ * or released when `final` is set.
+ */
+export const createReasoningSplitter = () => {
+  let state: 'start' | 'reasoning' | 'content' = 'start'
+  let buffer = ''
+  // Drops the line break models put between the closing tag and the answer
+  let trimNextContent = false
+
+  const takeContent = (text: string) => {
+    if (!trimNextContent) return text
+    const trimmed = text.trimStart()
+    if (trimmed) trimNextContent = false
+    return trimmed
+  }
+
+  const push = (text: string, final = false): ReasoningParts => {
+    buffer += text
+    let reasoning = ''
+    if (state === 'start') {
+      const leading = buffer.trimStart()
+      if (leading.startsWith(OPEN_TAG)) {
+        state = 'reasoning'
+        buffer = leading.slice(OPEN_TAG.length)
+      } else if (!final && OPEN_TAG.startsWith(leading)) {
+        return { content: '', reasoning: '' }
+      } else {
+        state = 'content'
+      }
+    }
+    if (state === 'reasoning') {
+      const close = buffer.indexOf(CLOSE_TAG)
+      if (close === -1) {
+        const keep = final ? 0 : CLOSE_TAG.length - 1
+        reasoning = buffer.slice(0, Math.max(buffer.length - keep, 0))
+        buffer = buffer.slice(reasoning.length)
+        return { content: '', reasoning }
+      }
+      reasoning = buffer.slice(0, close)
+      buffer = buffer.slice(close + CLOSE_TAG.length)
+      state = 'content'
+      trimNextContent = true
+    }
+    const content = takeContent(buffer)
+    buffer = ''
+    return { content, reasoning }
+  }
+
+  return { push }
+}
+
+export const splitReasoning = (text: string) => {
+  const { content, reasoning } = createReasoningSplitter().push(text, true)
+  return { content, reasoning: reasoning.trim() }
+}
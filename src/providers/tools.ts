@@ -0,0 +1,30 @@
+import { ToolCall } from '../types'
+import { createId } from '../utils/conversations'
+import { ToolDefinition } from './types'
+
+// Ollama and OpenAI-compatible servers share the OpenAI function tool format
+export const toFunctionTools = (tools?: ToolDefinition[]) => {
+  if (!tools || tools.length === 0) return undefined
+  return tools.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters }
+  }))
+}
+
+// Arguments arrive as an object from Ollama and as a JSON string from OpenAI-style servers
+export const parseToolArguments = (value: unknown): Record<string, unknown> => {
+  if (value && typeof value === 'object') return value as Record<string, unknown>
+  if (typeof value !== 'string' || !value.trim()) return {}
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (error) {
+    return {}
+  }
+}
+
+export const toToolCall = (call: any): ToolCall => ({
+  id: call.id || createId(),
+  name: call.function?.name || '',
+  arguments: parseToolArguments(call.function?.arguments)
+})
@@ -0,0 +1,100 @@
+import { ChatTurn, GenerationParameters, ModelInfo, ProviderId, ProviderSettings, ToolCall } from '../types'
+
+// A function the model may call; `parameters` is a JSON Schema object
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+// Asks for a JSON reply, constrained by `schema` when one is given
+export interface ResponseFormat {
+  schema?: Record<string, unknown>
+}
+
+export interface ChatRequest {
+  model: string
+  messages: ChatTurn[]
+  parameters?: GenerationParameters
+  tools?: ToolDefinition[]
+  format?: ResponseFormat
+  signal?: AbortSignal
+}
+
+// Token counts and timings as reported by the server; durations in milliseconds
+export interface ChatUsage {
+  promptTokens?: number
+  completionTokens?: number
+  evalDuration?: number
+  loadDuration?: number
+  totalDuration?: number
+}
+
+// `reasoning` carries a thinking model's chain of thought, kept apart from the answer
+export interface ChatChunk {
+  content: string
+  reasoning?: string
+  done?: boolean
+  usage?: ChatUsage
+  toolCalls?: ToolCall[]
+}
+
+export interface ChatResult {
+  content: string
+  reasoning?: string
+  usage?: ChatUsage
+  toolCalls?: ToolCall[]
+}
+
+export interface PullProgress {
+  status: string
+  completed?: number
+  total?: number
+}
+
+export interface ModelDetails {
+  family?: string
+  parameterSize?: string
+  quantization?: string
+  contextLength?: number
+  parameters?: string
+  template?: string
+  license?: string
+  capabilities: string[]
+}
+
+export interface RunningModel {
+  name: string
+  size: number
+  sizeVram: number
+  expiresAt?: string
+}
+
+// Server-side model lifecycle; only implemented by providers that expose it
+export interface ModelManager {
+  pull: (settings: ProviderSettings, model: string, signal?: AbortSignal) => AsyncGenerator<PullProgress>
+  remove: (settings: ProviderSettings, model: string) => Promise<void>
+  show: (settings: ProviderSettings, model: string) => Promise<ModelDetails>
+  listRunning: (settings: ProviderSettings) => Promise<RunningModel[]>
+  unload: (settings: ProviderSettings, model: string) => Promise<void>
+}
+
+/**
+ * A backend NeaLLM can talk to. Adding a server means adding an adapter
+ * and registering it in `providers/index.ts`.
+ */
+export interface ProviderAdapter {
+  id: ProviderId
+  label: string
+  defaultBaseUrl: string
+  supportsAuth: boolean
+  listModels: (settings: ProviderSettings) => Promise<ModelInfo[]>
+  // Resolves to true when the server answers; otherwise throws with the reason
+  healthCheck: (settings: ProviderSettings) => Promise<boolean>
+  // Resolves to null when the server does not report capabilities
+  getModelCapabilities: (settings: ProviderSettings, model: string) => Promise<string[] | null>
+  embed: (settings: ProviderSettings, model: string, input: string[]) => Promise<number[][]>
+  chat: (settings: ProviderSettings, request: ChatRequest) => Promise<ChatResult>
+  stream: (settings: ProviderSettings, request: ChatRequest) => AsyncGenerator<ChatChunk>
+  modelManager?: ModelManager
+}
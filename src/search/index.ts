@@ -0,0 +1,233 @@
+import { Conversation, Message, ProviderId } from '../types'
+import { buildMatcher, buildSnippet, SnippetPart } from './snippet'
+
+export interface SearchFilters {
+  role: Message['role'] | ''
+  model: string
+  provider: ProviderId | ''
+  // Inclusive `yyyy-mm-dd` bounds in local time, empty when open
+  from: string
+  to: string
+}
+
+export interface SearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: Message['role']
+  model: string
+  provider: ProviderId
+  timestamp: number
+  snippet: SnippetPart[]
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  total: number
+}
+
+export const emptyFilters: SearchFilters = { role: '', model: '', provider: '', from: '', to: '' }
+
+export const MAX_RESULTS = 50
+
+// Terms shorter than this only match whole words, so one letter doesn't match half the index
+const MIN_PREFIX_LENGTH = 2
+
+// Prefix matches count for less than the exact word
+const PREFIX_WEIGHT = 0.5
+
+interface IndexedMessage {
+  conversationId: string
+  message: Message
+  text: string
+  terms: Map<string, number>
+}
+
+interface IndexedConversation {
+  messages: Message[]
+  keys: Set<string>
+}
+
+export const tokenize = (text: string) => {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []
+}
+
+const countTerms = (text: string) => {
+  const counts = new Map<string, number>()
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1)
+  }
+  return counts
+}
+
+// Quoted parts are phrases that must appear verbatim; everything else is ANDed keywords
+export const parseQuery = (query: string) => {
+  const phrases: string[] = []
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    if (phrase.trim()) phrases.push(phrase.trim().toLowerCase())
+    return ' '
+  })
+  const terms = Array.from(new Set([...tokenize(rest), ...phrases.flatMap(tokenize)]))
+  return { terms, phrases }
+}
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime()
+
+const isFiltered = (filters: SearchFilters) => Object.values(filters).some(Boolean)
+
+/**
+ * An inverted index over every stored message. `sync` only re-tokenizes
+ * conversations and messages whose objects changed since the last call, so it
+ * can run before each search without rebuilding everything.
+ */
+export const createSearchIndex = () => {
+  const entries = new Map<string, IndexedMessage>()
+  const postings = new Map<string, Map<string, number>>()
+  const synced = new Map<string, IndexedConversation>()
+  const conversationsById = new Map<string, Conversation>()
+
+  const addEntry = (key: string, entry: IndexedMessage) => {
+    entries.set(key, entry)
+    for (const [term, count] of entry.terms) {
+      let docs = postings.get(term)
+      if (!docs) {
+        docs = new Map()
+        postings.set(term, docs)
+      }
+      docs.set(key, count)
+    }
+  }
+
+  const removeEntry = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return
+    for (const term of entry.terms.keys()) {
+      const docs = postings.get(term)
+      docs?.delete(key)
+      if (docs?.size === 0) postings.delete(term)
+    }
+    entries.delete(key)
+  }
+
+  const syncConversation = (conversation: Conversation) => {
+    const previous = synced.get(conversation.id)
+    if (previous?.messages === conversation.messages) return
+    const keys = new Set<string>()
+    for (const message of conversation.messages) {
+      const key = `${conversation.id}/${message.id}`
+      keys.add(key)
+      if (entries.get(key)?.message === message) continue
+      removeEntry(key)
+      addEntry(key, { conversationId: conversation.id, message, text: message.content.toLowerCase(), terms: countTerms(message.content) })
+    }
+    for (const key of previous?.keys || []) {
+      if (!keys.has(key)) removeEntry(key)
+    }
+    synced.set(conversation.id, { messages: conversation.messages, keys })
+  }
+
+  const sync = (conversations: Conversation[]) => {
+    conversationsById.clear()
+    for (const conversation of conversations) {
+      conversationsById.set(conversation.id, conversation)
+      syncConversation(conversation)
+    }
+    for (const [id, conversation] of synced) {
+      if (conversationsById.has(id)) continue
+      conversation.keys.forEach(removeEntry)
+      synced.delete(id)
+    }
+  }
+
+  // Messages sent before models were recorded fall back to their conversation's settings
+  const describe = (entry: IndexedMessage) => {
+    const settings = conversationsById.get(entry.conversationId)?.settings
+    return {
+      model: entry.message.model || settings?.model || '',
+      provider: entry.message.provider || settings?.provider || 'ollama'
+    }
+  }
+
+  const scoreTerm = (term: string) => {
+    const scores = new Map<string, number>()
+    const add = (word: string, weight: number) => {
+      const docs = postings.get(word)
+      if (!docs) return
+      const idf = Math.log(1 + entries.size / docs.size)
+      for (const [key, count] of docs) {
+        scores.set(key, (scores.get(key) || 0) + count * weight * idf)
+      }
+    }
+    add(term, 1)
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      for (const word of postings.keys()) {
+        if (word !== term && word.startsWith(term)) add(word, PREFIX_WEIGHT)
+      }
+    }
+    return scores
+  }
+
+  const search = (query: string, filters: SearchFilters = emptyFilters, limit = MAX_RESULTS): SearchResponse => {
+    const { terms, phrases } = parseQuery(query)
+    if (terms.length === 0 && !isFiltered(filters)) {
+      return { results: [], total: 0 }
+    }
+    // Keywords are ANDed: each term narrows the candidates of the previous ones
+    let scores: Map<string, number> | null = null
+    for (const term of terms) {
+      const termScores = scoreTerm(term)
+      const next = new Map<string, number>()
+      for (const [key, score] of termScores) {
+        if (!scores || scores.has(key)) next.set(key, (scores?.get(key) || 0) + score)
+      }
+      scores = next
+      if (scores.size === 0) break
+    }
+    const from = filters.from ? dayStart(filters.from) : -Infinity
+    const to = filters.to ? dayStart(filters.to) + 24 * 60 * 60 * 1000 : Infinity
+    const matches: { entry: IndexedMessage, score: number, model: string, provider: ProviderId }[] = []
+    for (const [key, entry] of entries) {
+      const score = scores ? scores.get(key) : 0
+      if (score === undefined) continue
+      const { message } = entry
+      if (filters.role && message.role !== filters.role) continue
+      if (message.timestamp < from || message.timestamp >= to) continue
+      if (phrases.some(phrase => !entry.text.includes(phrase))) continue
+      const { model, provider } = describe(entry)
+      if (filters.model && model !== filters.model) continue
+      if (filters.provider && provider !== filters.provider) continue
+      matches.push({ entry, score, model, provider })
+    }
+    matches.sort((a, b) => b.score - a.score || b.entry.message.timestamp - a.entry.message.timestamp)
+    const matcher = buildMatcher(terms, phrases)
+    return {
+      total: matches.length,
+      results: matches.slice(0, limit).map(({ entry, model, provider }) => ({
+        conversationId: entry.conversationId,
+        conversationTitle: conversationsById.get(entry.conversationId)?.title || '',
+        messageId: entry.message.id,
+        role: entry.message.role,
+        model,
+        provider,
+        timestamp: entry.message.timestamp,
+        snippet: buildSnippet(entry.message.content, matcher)
+      }))
+    }
+  }
+
+  // Models seen across the index, for the model filter
+  const listModels = () => {
+    const models = new Set<string>()
+    for (const entry of entries.values()) {
+      const { model } = describe(entry)
+      if (model) models.add(model)
+    }
+    return Array.from(models).sort()
+  }
+
+  return { sync, search, listModels }
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>
+
+export type { SnippetPart } from './snippet'
@@ -0,0 +1,51 @@
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+const SNIPPET_BEFORE = 60
+const SNIPPET_LENGTH = 220
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Terms match at the start of a word, like in the index; phrases match anywhere
+export const buildMatcher = (terms: string[], phrases: string[]) => {
+  const patterns = [
+    ...phrases.map(escapeRegExp),
+    ...terms.map(term => `(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}`)
+  ]
+  return patterns.length > 0 ? new RegExp(patterns.join('|'), 'giu') : null
+}
+
+const splitMatches = (text: string, matcher: RegExp | null): SnippetPart[] => {
+  if (!matcher) return [{ text, match: false }]
+  const parts: SnippetPart[] = []
+  let last = 0
+  for (const found of text.matchAll(matcher)) {
+    const start = found.index ?? 0
+    if (start > last) parts.push({ text: text.slice(last, start), match: false })
+    parts.push({ text: found[0], match: true })
+    last = start + found[0].length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false })
+  return parts
+}
+
+/**
+ * Cuts a window of `content` around the first match and splits it into
+ * plain and highlighted parts.
+ */
+export const buildSnippet = (content: string, matcher: RegExp | null): SnippetPart[] => {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const first = matcher ? text.search(matcher) : -1
+  let start = Math.max(first - SNIPPET_BEFORE, 0)
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    start = space !== -1 && space < first ? space + 1 : start
+  }
+  const end = Math.min(start + SNIPPET_LENGTH, text.length)
+  const parts = splitMatches(text.slice(start, end), matcher)
+  if (start > 0) parts.unshift({ text: '…', match: false })
+  if (end < text.length) parts.push({ text: '…', match: false })
+  return parts
+}
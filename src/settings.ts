@@ -0,0 +1,146 @@
+import { GenerationParameters, KnowledgeSettings, ParameterPreset, PromptTemplate, ProviderSettings, SecuritySettings } from './types'
+
+export const defaultSettings: ProviderSettings = {
+  provider: 'ollama',
+  baseUrl: 'http://localhost:11434',
+  model: 'llama2',
+  contextTokens: 4096
+}
+
+export const defaultParameters: GenerationParameters = {
+  systemPrompt: '',
+  stop: []
+}
+
+export const defaultKnowledgeSettings: KnowledgeSettings = {
+  embeddingModel: 'nomic-embed-text',
+  topK: 4,
+  chunkSize: 1200,
+  chunkOverlap: 200
+}
+
+export const defaultSecuritySettings: SecuritySettings = {
+  autoLockMinutes: 15
+}
+
+export const builtinPresets: ParameterPreset[] = [
+  {
+    id: 'builtin-balanced',
+    name: 'Balanced',
+    builtin: true,
+    parameters: { ...defaultParameters }
+  },
+  {
+    id: 'builtin-precise-code',
+    name: 'Precise code',
+    builtin: true,
+    parameters: {
+      systemPrompt: 'You are a senior software engineer. Answer with correct, idiomatic code and keep explanations short.',
+      temperature: 0.2,
+      topP: 0.9,
+      topK: 40,
+      stop: []
+    }
+  },
+  {
+    id: 'builtin-creative',
+    name: 'Creative',
+    builtin: true,
+    parameters: {
+      systemPrompt: '',
+      temperature: 1.0,
+      topP: 0.95,
+      topK: 100,
+      stop: []
+    }
+  }
+]
+
+export const builtinTemplates: PromptTemplate[] = [
+  {
+    id: 'builtin-review',
+    name: 'Review a diff',
+    command: 'review',
+    description: 'Code review of a diff',
+    builtin: true,
+    content: 'Review this diff. Point out bugs, risky changes and missing tests first, then style issues. Quote the lines you comment on.\n\n```diff\n{{diff}}\n```'
+  },
+  {
+    id: 'builtin-tests',
+    name: 'Write unit tests',
+    command: 'tests',
+    description: 'Unit tests for a piece of code',
+    builtin: true,
+    content: 'Write unit tests with {{framework}} for the code below. Cover edge cases and failure paths, not just the happy path.\n\n```\n{{code}}\n```'
+  },
+  {
+    id: 'builtin-translate-ts',
+    name: 'Translate to TypeScript',
+    command: 'typescript',
+    description: 'Port code to idiomatic TypeScript',
+    builtin: true,
+    content: 'Translate this code to idiomatic, strictly typed TypeScript. Keep the behavior identical and explain anything that could not be mapped one to one.\n\n```\n{{code}}\n```'
+  }
+]
+
+// Starting points for JSON mode; the text is what ends up in the schema editor
+export const builtinSchemas: { name: string, schema: string }[] = [
+  {
+    name: 'Entities',
+    schema: JSON.stringify({
+      type: 'object',
+      properties: {
+        entities: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              type: { type: 'string', enum: ['person', 'organization', 'location', 'date', 'other'] }
+            },
+            required: ['name', 'type'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['entities'],
+      additionalProperties: false
+    }, null, 2)
+  },
+  {
+    name: 'Summary',
+    schema: JSON.stringify({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        summary: { type: 'string' },
+        keyPoints: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] }
+      },
+      required: ['title', 'summary', 'keyPoints', 'sentiment'],
+      additionalProperties: false
+    }, null, 2)
+  }
+]
+
+// Fills in fields added after the settings were persisted
+export const normalizeSettings = (settings?: Partial<ProviderSettings>): ProviderSettings => {
+  return { ...defaultSettings, ...settings }
+}
+
+export const normalizeKnowledgeSettings = (knowledge?: Partial<KnowledgeSettings>): KnowledgeSettings => {
+  return { ...defaultKnowledgeSettings, ...knowledge }
+}
+
+export const normalizeParameters = (parameters?: Partial<GenerationParameters>): GenerationParameters => {
+  return {
+    ...defaultParameters,
+    ...parameters,
+    stop: Array.isArray(parameters?.stop) ? parameters.stop.filter(s => typeof s === 'string') : []
+  }
+}
+
+export const normalizeSecuritySettings = (security?: Partial<SecuritySettings>): SecuritySettings => {
+  const settings = { ...defaultSecuritySettings, ...security }
+  return { autoLockMinutes: Number.isFinite(settings.autoLockMinutes) && settings.autoLockMinutes > 0 ? settings.autoLockMinutes : 0 }
+}
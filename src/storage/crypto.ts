@@ -0,0 +1,84 @@
+const ENVELOPE_TYPE = 'neallm-encrypted'
+const ENVELOPE_VERSION = 1
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256; WebCrypto has no memory-hard KDF
+export const PBKDF2_ITERATIONS = 600000
+
+const SALT_BYTES = 16
+
+// 96-bit nonces are what AES-GCM is specified for
+const IV_BYTES = 12
+
+export interface KdfParams {
+  name: 'PBKDF2'
+  hash: 'SHA-256'
+  iterations: number
+  salt: string
+}
+
+// What gets persisted in place of an encrypted value; everything but `kdf` is opaque
+export interface EncryptedEnvelope {
+  type: typeof ENVELOPE_TYPE
+  version: number
+  kdf: KdfParams
+  iv: string
+  data: string
+}
+
+export class DecryptionError extends Error {
+  constructor() {
+    super('Wrong passphrase or damaged data')
+    this.name = 'DecryptionError'
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0))
+
+export const isEncrypted = (value: unknown): value is EncryptedEnvelope => {
+  const envelope = value as EncryptedEnvelope | null
+  return Boolean(envelope && envelope.type === ENVELOPE_TYPE && envelope.kdf && typeof envelope.data === 'string')
+}
+
+export const createKdfParams = (): KdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+})
+
+// The key cannot be exported, so it never leaves WebCrypto
+export const deriveKey = async (passphrase: string, kdf: KdfParams) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export const encryptJson = async (key: CryptoKey, kdf: KdfParams, value: unknown): Promise<EncryptedEnvelope> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+  return { type: ENVELOPE_TYPE, version: ENVELOPE_VERSION, kdf, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+// GCM authenticates the data, so a wrong key fails here instead of yielding garbage
+export const decryptJson = async <T = any>(key: CryptoKey, envelope: EncryptedEnvelope): Promise<T> => {
+  let data: ArrayBuffer
+  try {
+    data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data))
+  } catch (error) {
+    throw new DecryptionError()
+  }
+  return JSON.parse(new TextDecoder().decode(data))
+}
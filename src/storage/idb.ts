@@ -0,0 +1,64 @@
+const DB_NAME = 'neallm'
+const DB_VERSION = 2
+export const STORES = ['state', 'documents'] as const
+
+export type StoreName = typeof STORES[number]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const isIndexedDbAvailable = () => {
+  return typeof indexedDB !== 'undefined'
+}
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+export const idbGet = async <T = any>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb()
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key))
+}
+
+export const idbGetAll = async <T = any>(store: StoreName): Promise<T[]> => {
+  const db = await openDb()
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll())
+}
+
+export const idbSet = async (store: StoreName, key: string, value: any) => {
+  const db = await openDb()
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key))
+}
+
+export const idbDelete = async (store: StoreName, key: string) => {
+  const db = await openDb()
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key))
+}
+
+export const idbClear = async (store: StoreName) => {
+  const db = await openDb()
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear())
+}
@@ -0,0 +1,247 @@
+import { PersistedState } from '../types'
+import { normalizeKnowledgeSettings, normalizeParameters, normalizeSecuritySettings, normalizeSettings } from '../settings'
+import { createConversation } from '../utils/conversations'
+import { normalizeTree } from '../utils/tree'
+import { normalizeArena } from '../utils/arena'
+import { normalizeTemplates } from '../utils/templates'
+import { splitReasoning } from '../providers/reasoning'
+import { normalizeProfiles } from '../utils/profiles'
+import { expireToolInvocations } from '../tools'
+import { loadDocuments, saveDocument } from '../knowledge/store'
+import { vscode } from '../vscode'
+import { decryptJson, deriveKey, isEncrypted } from './crypto'
+import { closeVault, createVault, isVaultOpen, openVault, seal, unseal, VaultLockedError } from './vault'
+import { idbClear, idbGet, idbSet, isIndexedDbAvailable, STORES } from './idb'
+
+export { VaultLockedError } from './vault'
+export { DecryptionError } from './crypto'
+
+export const STATE_VERSION = 10
+
+const STATE_KEY = 'neallm-state'
+
+// Backends store either the state itself or its encrypted envelope
+interface StorageBackend {
+  read: () => Promise<any>
+  write: (state: unknown) => Promise<void>
+}
+
+const vscodeBackend: StorageBackend = {
+  read: async () => vscode?.getState(),
+  write: async (state) => vscode?.setState(state)
+}
+
+const indexedDbBackend: StorageBackend = {
+  read: () => idbGet('state', STATE_KEY),
+  write: (state) => idbSet('state', STATE_KEY, state)
+}
+
+const localStorageBackend: StorageBackend = {
+  read: async () => {
+    const raw = localStorage.getItem(STATE_KEY)
+    return raw ? JSON.parse(raw) : null
+  },
+  write: async (state) => localStorage.setItem(STATE_KEY, JSON.stringify(state))
+}
+
+const getBackend = () => {
+  if (vscode) return vscodeBackend
+  return isIndexedDbAvailable() ? indexedDbBackend : localStorageBackend
+}
+
+/**
+ * Upgrades a state object persisted by version N to N + 1.
+ * Version 1 is the unversioned `{ messages, settings }` single-chat state.
+ */
+const migrations: Record<number, (state: any) => any> = {
+  1: (state) => {
+    const settings = normalizeSettings(state.settings)
+    const messages = Array.isArray(state.messages) ? state.messages : []
+    const conversations = messages.length > 0 ? [createConversation(settings, messages)] : []
+    return {
+      version: 2,
+      conversations,
+      activeConversationId: conversations[0]?.id || null,
+      settings
+    }
+  },
+  2: (state) => ({
+    ...state,
+    version: 3,
+    conversations: (state.conversations || []).map((conversation: any) => ({
+      ...conversation,
+      parameters: normalizeParameters()
+    })),
+    presets: []
+  }),
+  3: (state) => ({
+    ...state,
+    version: 4,
+    knowledge: normalizeKnowledgeSettings()
+  }),
+  4: (state) => ({
+    ...state,
+    version: 5,
+    conversations: (state.conversations || []).map((conversation: any) => normalizeTree({
+      ...conversation,
+      messages: Array.isArray(conversation.messages) ? conversation.messages : [],
+      activeLeafId: null
+    }))
+  }),
+  5: (state) => ({
+    ...state,
+    version: 6,
+    arena: []
+  }),
+  6: (state) => ({
+    ...state,
+    version: 7,
+    templates: []
+  }),
+  // Replies used to keep `<think>` blocks inline in their content
+  7: (state) => ({
+    ...state,
+    version: 8,
+    conversations: (state.conversations || []).map((conversation: any) => ({
+      ...conversation,
+      messages: (conversation.messages || []).map((message: any) => {
+        if (message.role !== 'assistant' || typeof message.content !== 'string') return message
+        const { content, reasoning } = splitReasoning(message.content)
+        return reasoning ? { ...message, content, reasoning } : message
+      })
+    }))
+  }),
+  8: (state) => ({
+    ...state,
+    version: 9,
+    profiles: []
+  }),
+  9: (state) => ({
+    ...state,
+    version: 10,
+    security: normalizeSecuritySettings()
+  })
+}
+
+export const migrateState = (raw: any): PersistedState | null => {
+  if (!raw || typeof raw !== 'object') return null
+  let state = raw
+  let version = typeof state.version === 'number' ? state.version : 1
+  while (version < STATE_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) return null
+    state = migrate(state)
+    version = state.version
+  }
+  return {
+    ...state,
+    settings: normalizeSettings(state.settings),
+    conversations: (state.conversations || []).map((conversation: any) => normalizeTree({
+      ...conversation,
+      messages: (conversation.messages || []).map(expireToolInvocations),
+      settings: normalizeSettings(conversation.settings),
+      parameters: normalizeParameters(conversation.parameters)
+    })),
+    presets: Array.isArray(state.presets) ? state.presets : [],
+    knowledge: normalizeKnowledgeSettings(state.knowledge),
+    arena: normalizeArena(state.arena),
+    templates: normalizeTemplates(state.templates),
+    profiles: normalizeProfiles(state.profiles),
+    security: normalizeSecuritySettings(state.security)
+  }
+}
+
+// Whether what was last read or written is encrypted; known once `loadState` ran
+let isStoredEncrypted = false
+
+const readStored = async () => {
+  try {
+    return await getBackend().read()
+  } catch (error) {
+    return null
+  }
+}
+
+export const isEncryptionEnabled = () => isStoredEncrypted
+
+// Throws `VaultLockedError` while the state is encrypted and `unlockState` has not succeeded
+export const loadState = async () => {
+  const stored = await readStored()
+  isStoredEncrypted = isEncrypted(stored)
+  try {
+    return migrateState(await unseal(stored))
+  } catch (error) {
+    if (error instanceof VaultLockedError) throw error
+    return null
+  }
+}
+
+// Throws `DecryptionError` for a wrong passphrase and leaves the vault closed
+export const unlockState = async (passphrase: string) => {
+  const stored = await readStored()
+  if (!isEncrypted(stored)) return loadState()
+  await openVault(passphrase, stored.kdf)
+  try {
+    await unseal(stored)
+  } catch (error) {
+    closeVault()
+    throw error
+  }
+  return loadState()
+}
+
+export const lockState = () => {
+  closeVault()
+}
+
+export const saveState = async (state: Omit<PersistedState, 'version'>) => {
+  // A locked app holds no data, and writing it would replace the encrypted state
+  if (isStoredEncrypted && !isVaultOpen()) return
+  return getBackend().write(await seal({ ...state, version: STATE_VERSION }))
+}
+
+const verifyPassphrase = async (passphrase: string) => {
+  const stored = await readStored()
+  if (isEncrypted(stored)) {
+    await decryptJson(await deriveKey(passphrase, stored.kdf), stored)
+  }
+}
+
+// Writes the state and every knowledge document again once `change` swapped the key
+const reseal = async (state: Omit<PersistedState, 'version'>, change: () => Promise<void> | void) => {
+  const documents = isIndexedDbAvailable() ? await loadDocuments() : []
+  await change()
+  isStoredEncrypted = isVaultOpen()
+  await getBackend().write(await seal({ ...state, version: STATE_VERSION }))
+  await Promise.all(documents.map(saveDocument))
+}
+
+export const enableEncryption = (passphrase: string, state: Omit<PersistedState, 'version'>) => {
+  return reseal(state, () => createVault(passphrase))
+}
+
+export const changePassphrase = async (current: string, next: string, state: Omit<PersistedState, 'version'>) => {
+  await verifyPassphrase(current)
+  return reseal(state, () => createVault(next))
+}
+
+export const disableEncryption = async (passphrase: string, state: Omit<PersistedState, 'version'>) => {
+  await verifyPassphrase(passphrase)
+  return reseal(state, closeVault)
+}
+
+// Panic wipe: conversations, settings and knowledge documents in every backend.
+// The vault closes last, so after a failure whatever is left can still be read back.
+export const wipeAllData = async () => {
+  if (isIndexedDbAvailable()) {
+    await Promise.all(STORES.map(idbClear))
+  }
+  vscode?.setState(null)
+  try {
+    localStorage.removeItem(STATE_KEY)
+  } catch (error) {
+    // Storage can be unavailable in sandboxed webviews
+  }
+  closeVault()
+  isStoredEncrypted = false
+}
@@ -0,0 +1,37 @@
+import { createKdfParams, decryptJson, deriveKey, encryptJson, isEncrypted, KdfParams } from './crypto'
+
+// The derived key for this session; it only ever lives in memory
+let session: { key: CryptoKey, kdf: KdfParams } | null = null
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The stored data is encrypted and locked')
+    this.name = 'VaultLockedError'
+  }
+}
+
+export const isVaultOpen = () => session !== null
+
+export const openVault = async (passphrase: string, kdf: KdfParams) => {
+  session = { key: await deriveKey(passphrase, kdf), kdf }
+}
+
+// A fresh salt, so a new passphrase never yields a key used before
+export const createVault = (passphrase: string) => openVault(passphrase, createKdfParams())
+
+export const closeVault = () => {
+  session = null
+}
+
+// Encrypts while the vault is open and passes values through otherwise
+export const seal = async (value: unknown) => {
+  const current = session
+  return current ? encryptJson(current.key, current.kdf, value) : value
+}
+
+// Plain values from before encryption was turned on pass through unchanged
+export const unseal = async <T = any>(value: unknown): Promise<T> => {
+  if (!isEncrypted(value)) return value as T
+  if (!session) throw new VaultLockedError()
+  return decryptJson<T>(session.key, value)
+}
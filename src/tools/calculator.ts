@@ -0,0 +1,160 @@
+import { Tool } from './types'
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+}
+
+// Own keys only, so names like `constructor` are not found on Object.prototype
+const isDefined = (table: Record<string, unknown>, name: string) => Object.prototype.hasOwnProperty.call(table, name)
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),])/gy
+
+const tokenize = (expression: string) => {
+  const tokens: string[] = []
+  let index = 0
+  while (index < expression.length) {
+    TOKEN_PATTERN.lastIndex = index
+    const match = TOKEN_PATTERN.exec(expression)
+    if (!match) {
+      throw new Error(`Unexpected input near "${expression.slice(index).trim()}"`)
+    }
+    tokens.push(match[1])
+    index = TOKEN_PATTERN.lastIndex
+  }
+  return tokens
+}
+
+/**
+ * Evaluates an arithmetic expression with a small recursive-descent parser,
+ * so model-supplied input never reaches `eval`. Supports + - * / % and ^
+ * (or **), parentheses, the functions above and the constants pi and e.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression.trim().toLowerCase())
+  let position = 0
+  const peek = () => tokens[position]
+  const next = () => tokens[position++]
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`)
+  }
+
+  const parsePrimary = (): number => {
+    const token = next()
+    if (token === undefined) throw new Error('Unexpected end of expression')
+    if (token === '(') {
+      const value = parseSum()
+      expect(')')
+      return value
+    }
+    if (/^[\d.]/.test(token)) return Number(token)
+    if (isDefined(CONSTANTS, token)) return CONSTANTS[token]
+    if (isDefined(FUNCTIONS, token)) {
+      expect('(')
+      const args = [parseSum()]
+      while (peek() === ',') {
+        next()
+        args.push(parseSum())
+      }
+      expect(')')
+      return FUNCTIONS[token](...args)
+    }
+    throw new Error(`Unknown token "${token}"`)
+  }
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next()
+      return -parseUnary()
+    }
+    if (peek() === '+') {
+      next()
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // Right-associative, and binds tighter than unary minus on its left: -2^2 = -4
+  const parsePower = (): number => {
+    const base = parsePrimary()
+    if (peek() === '^' || peek() === '**') {
+      next()
+      return Math.pow(base, parseUnary())
+    }
+    return base
+  }
+
+  const parseProduct = (): number => {
+    let value = parseUnary()
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next()
+      const right = parseUnary()
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right
+    }
+    return value
+  }
+
+  const parseSum = (): number => {
+    let value = parseProduct()
+    while (peek() === '+' || peek() === '-') {
+      const operator = next()
+      const right = parseProduct()
+      value = operator === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  const result = parseSum()
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`)
+  }
+  return result
+}
+
+export const calculatorTool: Tool = {
+  definition: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp, pow, min, max and the constants pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression to evaluate, for example "(3 + 4) * 2^3"' }
+      },
+      required: ['expression']
+    }
+  },
+  sideEffects: false,
+  isAvailable: () => true,
+  run: async ({ expression }) => {
+    if (typeof expression !== 'string' || !expression.trim()) {
+      throw new Error('`expression` must be a non-empty string')
+    }
+    const result = evaluateExpression(expression)
+    if (!Number.isFinite(result)) {
+      throw new Error('The result is not a finite number')
+    }
+    return String(result)
+  }
+}
@@ -0,0 +1,28 @@
+import { Tool } from './types'
+
+export const dateTimeTool: Tool = {
+  definition: {
+    name: 'get_current_datetime',
+    description: 'Returns the current date, time, weekday and time zone. Optionally converts to another IANA time zone.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Berlin"; defaults to the user\'s local zone' }
+      }
+    }
+  },
+  sideEffects: false,
+  isAvailable: () => true,
+  run: async ({ timeZone }) => {
+    const now = new Date()
+    const zone = typeof timeZone === 'string' && timeZone.trim()
+      ? timeZone.trim()
+      : Intl.DateTimeFormat().resolvedOptions().timeZone
+    const local = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      dateStyle: 'full',
+      timeStyle: 'long'
+    }).format(now)
+    return JSON.stringify({ local, timeZone: zone, iso: now.toISOString() })
+  }
+}
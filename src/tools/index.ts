@@ -0,0 +1,63 @@
+import { Message, ToolCall, ToolInvocation } from '../types'
+import { ToolDefinition } from '../providers'
+import { Tool } from './types'
+import { calculatorTool } from './calculator'
+import { dateTimeTool } from './datetime'
+import { insertIntoEditorTool, readWorkspaceFileTool } from './workspace'
+
+// Model rounds allowed per reply before the loop gives up on a final answer
+export const MAX_TOOL_ROUNDS = 5
+
+export const builtinTools: Tool[] = [
+  calculatorTool,
+  dateTimeTool,
+  readWorkspaceFileTool,
+  insertIntoEditorTool
+]
+
+export const getAvailableTools = (): Tool[] => {
+  return builtinTools.filter(tool => tool.isAvailable())
+}
+
+export const findTool = (name: string) => {
+  return getAvailableTools().find(tool => tool.definition.name === name)
+}
+
+export const toToolDefinitions = (tools: Tool[]): ToolDefinition[] => {
+  return tools.map(tool => tool.definition)
+}
+
+/**
+ * Runs one tool call and returns the finished invocation. Failures are
+ * reported back to the model as the result instead of aborting the reply,
+ * so it can correct its arguments or answer without the tool.
+ */
+export const runToolCall = async (call: ToolCall): Promise<ToolInvocation> => {
+  const tool = findTool(call.name)
+  if (!tool) {
+    return { ...call, status: 'error', result: `Unknown tool "${call.name}"` }
+  }
+  try {
+    return { ...call, status: 'done', result: await tool.run(call.arguments) }
+  } catch (error) {
+    return { ...call, status: 'error', result: `Error: ${error instanceof Error ? error.message : 'Tool failed'}` }
+  }
+}
+
+export const DENIED_RESULT = 'The user declined to run this tool.'
+
+const isUnsettled = (invocation: ToolInvocation) => invocation.status === 'awaiting' || invocation.status === 'running'
+
+// Calls still waiting or running when their reply ended, or when the app reloaded, can no longer be decided
+export const expireToolInvocations = (message: Message): Message => {
+  if (!message.toolInvocations?.some(isUnsettled)) return message
+  return {
+    ...message,
+    toolInvocations: message.toolInvocations.map(invocation => isUnsettled(invocation)
+      ? { ...invocation, status: invocation.status === 'awaiting' ? 'denied' : 'error', result: 'The reply ended before this tool finished.' }
+      : invocation)
+  }
+}
+
+export type { Tool } from './types'
+export { evaluateExpression } from './calculator'
@@ -0,0 +1,9 @@
+import { ToolDefinition } from '../providers'
+
+export interface Tool {
+  definition: ToolDefinition
+  // Tools that change anything outside the chat only run after the user allows them
+  sideEffects: boolean
+  isAvailable: () => boolean
+  run: (args: Record<string, unknown>) => Promise<string>
+}
@@ -0,0 +1,78 @@
+import { messageBus } from '../bridge'
+import { createId } from '../utils/conversations'
+import { Tool } from './types'
+
+const READ_TIMEOUT = 10000
+
+// Keeps a single file from flooding the context window
+const MAX_FILE_CHARS = 20000
+
+const readWorkspaceFile = (path: string) => {
+  return new Promise<string>((resolve, reject) => {
+    const requestId = createId()
+    const timer = setTimeout(() => {
+      unsubscribe()
+      reject(new Error('VS Code did not answer in time'))
+    }, READ_TIMEOUT)
+    const unsubscribe = messageBus.subscribe((message) => {
+      if (message.type !== 'workspaceFile' || message.requestId !== requestId) return
+      clearTimeout(timer)
+      unsubscribe()
+      if (message.error !== undefined) {
+        reject(new Error(message.error))
+      } else {
+        resolve(message.content || '')
+      }
+    })
+    messageBus.post({ type: 'readWorkspaceFile', requestId, path })
+  })
+}
+
+export const readWorkspaceFileTool: Tool = {
+  definition: {
+    name: 'read_workspace_file',
+    description: 'Reads a text file from the open VS Code workspace.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Path relative to the workspace root, for example "src/index.ts"' }
+      },
+      required: ['path']
+    }
+  },
+  sideEffects: false,
+  isAvailable: () => messageBus.isAvailable,
+  run: async ({ path }) => {
+    if (typeof path !== 'string' || !path.trim()) {
+      throw new Error('`path` must be a non-empty string')
+    }
+    const content = await readWorkspaceFile(path.trim())
+    return content.length > MAX_FILE_CHARS
+      ? `${content.slice(0, MAX_FILE_CHARS)}\n\n[Truncated: showing ${MAX_FILE_CHARS} of ${content.length} characters]`
+      : content
+  }
+}
+
+export const insertIntoEditorTool: Tool = {
+  definition: {
+    name: 'insert_into_editor',
+    description: 'Inserts text at the cursor in the active VS Code editor.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'The text to insert' },
+        language: { type: 'string', description: 'Language of the text, for example "typescript"' }
+      },
+      required: ['code']
+    }
+  },
+  sideEffects: true,
+  isAvailable: () => messageBus.isAvailable,
+  run: async ({ code, language }) => {
+    if (typeof code !== 'string') {
+      throw new Error('`code` must be a string')
+    }
+    messageBus.post({ type: 'insertAtCursor', code, language: typeof language === 'string' ? language : undefined })
+    return 'Inserted into the active editor.'
+  }
+}
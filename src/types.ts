@@ -0,0 +1,231 @@
+import type { EditorContext } from './bridge/protocol'
+
+export interface ImageAttachment {
+  id: string
+  name: string
+  mimeType: string
+  data: string
+}
+
+export interface Citation {
+  index: number
+  documentId: string
+  documentName: string
+  chunkIndex: number
+  text: string
+  score: number
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export type ToolStatus = 'awaiting' | 'running' | 'done' | 'error' | 'denied'
+
+// A tool call the model made while answering, with the result that was sent back
+export interface ToolInvocation extends ToolCall {
+  status: ToolStatus
+  result?: string
+}
+
+// Durations are in milliseconds; fields are missing when the server does not report them
+export interface ResponseMetrics {
+  promptTokens?: number
+  completionTokens?: number
+  tokensPerSecond?: number
+  timeToFirstToken?: number
+  loadDuration?: number
+  totalDuration?: number
+}
+
+export interface Message {
+  id: string
+  parentId?: string | null
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: number
+  context?: EditorContext
+  attachments?: ImageAttachment[]
+  citations?: Citation[]
+  model?: string
+  provider?: ProviderId
+  metrics?: ResponseMetrics
+  toolInvocations?: ToolInvocation[]
+  // Replies generated side by side in one arena round share an id
+  arenaId?: string
+  arenaWinner?: boolean
+  // Server an arena reply came from, so picking it moves the chat to that exact server
+  baseUrl?: string
+  // Typed while the server was unreachable; sent once it answers again
+  queued?: boolean
+  // JSON Schema the reply was requested with, empty for any JSON; unset outside JSON mode
+  outputSchema?: string
+  // Never folded into a context summary
+  pinned?: boolean
+  // A thinking model's reasoning, shown apart from the answer and never sent back
+  reasoning?: string
+  reasoningDuration?: number
+}
+
+export interface ChatImage {
+  mimeType: string
+  data: string
+}
+
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  images?: ChatImage[]
+  // Set on assistant turns that request tools
+  toolCalls?: ToolCall[]
+  // Set on tool turns to link the result to its call
+  toolCallId?: string
+  toolName?: string
+}
+
+export type ProviderId = 'ollama' | 'lmstudio' | 'openai' | 'mock'
+
+export interface ProviderSettings {
+  provider: ProviderId
+  baseUrl: string
+  model: string
+  contextTokens: number
+  apiKey?: string
+  customHeaders?: string
+  // Seconds to wait for the first token; unset uses the built-in limit
+  timeout?: number
+  // The server profile these settings were taken from, cleared once the connection is edited
+  profileId?: string
+}
+
+// A saved connection that can be applied to any conversation
+export interface ServerProfile {
+  id: string
+  name: string
+  provider: ProviderId
+  baseUrl: string
+  apiKey?: string
+  customHeaders?: string
+  defaultModel: string
+  timeout?: number
+}
+
+// One provider/model pair answering side by side in arena mode
+export interface ArenaContestant {
+  id: string
+  provider: ProviderId
+  baseUrl: string
+  model: string
+}
+
+export interface ModelInfo {
+  name: string
+  size?: number
+  modified_at?: string
+  owned_by?: string
+  parameterSize?: string
+  quantization?: string
+}
+
+export interface GenerationParameters {
+  systemPrompt: string
+  temperature?: number
+  topP?: number
+  topK?: number
+  maxTokens?: number
+  // Unset leaves thinking to the model's default
+  think?: boolean
+  seed?: number
+  stop: string[]
+  numCtx?: number
+  keepAlive?: string
+}
+
+export interface ParameterPreset {
+  id: string
+  name: string
+  parameters: GenerationParameters
+  builtin?: boolean
+}
+
+export interface PromptTemplate {
+  id: string
+  name: string
+  // Typed as `/command` in the composer
+  command: string
+  description?: string
+  // Text with `{{variable}}` placeholders filled in from a form when used
+  content: string
+  builtin?: boolean
+}
+
+// Stands in for older messages once the history gets close to the context length
+export interface ContextSummary {
+  id: string
+  content: string
+  // The messages it replaces; it applies to every branch that contains all of them
+  coveredIds: string[]
+  model: string
+  createdAt: number
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  // Every message of every branch; `activeLeafId` selects the visible thread
+  messages: Message[]
+  activeLeafId: string | null
+  settings: ProviderSettings
+  parameters: GenerationParameters
+  presetId?: string
+  useKnowledge?: boolean
+  useTools?: boolean
+  // Set while replies are requested as JSON; `schema` is JSON Schema source, empty for any JSON
+  structuredOutput?: { schema: string }
+  summaries?: ContextSummary[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface PersistedState {
+  version: number
+  conversations: Conversation[]
+  activeConversationId: string | null
+  settings: ProviderSettings
+  presets: ParameterPreset[]
+  knowledge: KnowledgeSettings
+  arena: ArenaContestant[]
+  templates: PromptTemplate[]
+  profiles: ServerProfile[]
+  security: SecuritySettings
+}
+
+// Only takes effect once a passphrase is set
+export interface SecuritySettings {
+  // Minutes without input before the app locks itself, 0 for never
+  autoLockMinutes: number
+}
+
+export interface KnowledgeSettings {
+  embeddingModel: string
+  topK: number
+  chunkSize: number
+  chunkOverlap: number
+}
+
+export interface KnowledgeChunk {
+  index: number
+  text: string
+  embedding: number[]
+}
+
+export interface KnowledgeDocument {
+  id: string
+  name: string
+  size: number
+  embeddingModel: string
+  chunks: KnowledgeChunk[]
+  createdAt: number
+}
@@ -0,0 +1,53 @@
+import { ArenaContestant, Message, ProviderSettings } from '../types'
+import { providers } from '../providers'
+import { createId } from './conversations'
+import { ChildrenIndex } from './tree'
+
+export const MIN_CONTESTANTS = 2
+
+export const MAX_CONTESTANTS = 4
+
+export const createContestant = ({ provider, baseUrl, model }: Pick<ProviderSettings, 'provider' | 'baseUrl' | 'model'>): ArenaContestant => ({
+  id: createId(),
+  provider,
+  baseUrl,
+  model
+})
+
+export const normalizeArena = (arena?: unknown): ArenaContestant[] => {
+  if (!Array.isArray(arena)) return []
+  return arena
+    .filter((contestant: any) => contestant && contestant.provider in providers && typeof contestant.model === 'string')
+    .slice(0, MAX_CONTESTANTS)
+    .map((contestant: any) => ({
+      id: typeof contestant.id === 'string' ? contestant.id : createId(),
+      provider: contestant.provider,
+      baseUrl: typeof contestant.baseUrl === 'string' ? contestant.baseUrl : providers[contestant.provider as ArenaContestant['provider']].defaultBaseUrl,
+      model: contestant.model
+    }))
+}
+
+/**
+ * Request settings for one contestant. Credentials only carry over when the
+ * contestant talks to the same server, so an API key never leaks to another host.
+ */
+export const toContestantSettings = (base: ProviderSettings, contestant: Pick<ArenaContestant, 'provider' | 'baseUrl' | 'model'>): ProviderSettings => {
+  const sameServer = base.provider === contestant.provider && base.baseUrl === contestant.baseUrl
+  return {
+    ...base,
+    provider: contestant.provider,
+    baseUrl: contestant.baseUrl,
+    model: contestant.model,
+    apiKey: sameServer ? base.apiKey : undefined,
+    customHeaders: sameServer ? base.customHeaders : undefined,
+    // Another server no longer matches the profile the chat was linked to
+    profileId: sameServer ? base.profileId : undefined
+  }
+}
+
+// The replies of the newest arena round below `message`, oldest first
+export const getArenaRound = (index: ChildrenIndex, message: Message): Message[] => {
+  const arenaReplies = (index.get(message.id) || []).filter(m => m.arenaId)
+  const latest = arenaReplies[arenaReplies.length - 1]
+  return latest ? arenaReplies.filter(m => m.arenaId === latest.arenaId) : []
+}
@@ -0,0 +1,68 @@
+import { PromptTemplate } from '../types'
+
+export type CommandAction = 'clear' | 'model' | 'system'
+
+export interface SlashCommand {
+  name: string
+  description: string
+  // Placeholder shown after the name for commands that take an argument
+  argument?: string
+  // Values offered for the argument, e.g. installed models
+  options?: string[]
+  action?: CommandAction
+  template?: PromptTemplate
+}
+
+const actionCommands: SlashCommand[] = [
+  { name: 'clear', description: 'Clear the current chat', action: 'clear' },
+  { name: 'model', description: 'Switch the model for this chat', argument: '<name>', action: 'model' },
+  { name: 'system', description: 'Set the system prompt, or clear it when empty', argument: '<prompt>', action: 'system' }
+]
+
+// Actions win over templates with the same command, so a pack can't shadow `/clear`
+export const buildCommands = (templates: PromptTemplate[], models: string[]): SlashCommand[] => {
+  const actions = actionCommands.map(command => command.action === 'model' ? { ...command, options: models } : command)
+  const taken = new Set(actions.map(command => command.name))
+  const fromTemplates = templates
+    .filter(template => template.command && !taken.has(template.command))
+    .map(template => ({ name: template.command, description: template.description || template.name, template }))
+  return [...actions, ...fromTemplates]
+}
+
+// `/name rest of the line`; anything else, including `/path/like/this`, is a normal message
+export const parseCommand = (input: string) => {
+  const match = input.trim().match(/^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/)
+  return match ? { name: match[1], argument: match[2]?.trim() || '' } : null
+}
+
+export const findCommand = (commands: SlashCommand[], input: string) => {
+  const parsed = parseCommand(input)
+  const command = parsed && commands.find(c => c.name === parsed.name)
+  return command ? { command, argument: parsed.argument } : null
+}
+
+export interface CommandSuggestion {
+  command: SlashCommand
+  // Set when the suggestion completes the argument rather than the command
+  option?: string
+}
+
+/**
+ * Suggestions for the composer while the input is still a single command
+ * line: command names first, then the options of a command that has them.
+ */
+export const suggestCommands = (commands: SlashCommand[], input: string): CommandSuggestion[] => {
+  const nameOnly = input.match(/^\/([a-z0-9-]*)$/)
+  if (nameOnly) {
+    return commands
+      .filter(command => command.name.startsWith(nameOnly[1]))
+      .map(command => ({ command }))
+  }
+  const withArgument = input.match(/^\/([a-z0-9-]+) (\S*)$/)
+  const command = withArgument && commands.find(c => c.name === withArgument[1])
+  if (!withArgument || !command?.options) return []
+  const typed = withArgument[2].toLowerCase()
+  return command.options
+    .filter(option => option.toLowerCase().includes(typed) && option !== withArgument[2])
+    .map(option => ({ command, option }))
+}
@@ -0,0 +1,89 @@
+import { ChatTurn, ContextSummary, GenerationParameters, Message } from '../types'
+import { estimateMessageTokens, estimateTokens, getHistoryBudget, isErrorMessage } from './history'
+import { toModelContent } from './context'
+
+// Share of the history budget at which older messages get summarized before sending
+export const COMPACTION_THRESHOLD = 0.8
+
+// The latest exchanges stay verbatim so the model keeps the immediate context
+const KEEP_RECENT_MESSAGES = 4
+
+// At most this share of the budget goes into one summarization request
+const SUMMARY_INPUT_SHARE = 0.6
+
+const SUMMARY_INSTRUCTIONS = 'You compress chat history. Summarize the conversation below so it can replace the original messages in an assistant\'s memory. Keep facts, decisions, requirements, code identifiers, file names, commands, error messages and open questions. Drop greetings and repetition. Use short bullet points and the language of the conversation.'
+
+/**
+ * The summary to use for a thread: the one covering the most messages
+ * among those whose covered messages are all part of the thread.
+ */
+export const findSummary = (summaries: ContextSummary[] | undefined, thread: Message[]) => {
+  if (!summaries?.length) return null
+  const ids = new Set(thread.map(m => m.id))
+  let best: ContextSummary | null = null
+  for (const summary of summaries) {
+    if (summary.coveredIds.every(id => ids.has(id)) && summary.coveredIds.length > (best?.coveredIds.length || 0)) {
+      best = summary
+    }
+  }
+  return best
+}
+
+export const applySummary = (thread: Message[], summary: ContextSummary | null) => {
+  if (!summary) return thread
+  const covered = new Set(summary.coveredIds)
+  return thread.filter(m => !covered.has(m.id))
+}
+
+export interface ContextUsage {
+  used: number
+  budget: number
+}
+
+export const estimateContext = (
+  thread: Message[],
+  parameters: GenerationParameters,
+  contextTokens: number,
+  summary: ContextSummary | null
+): ContextUsage => {
+  const used = estimateTokens(parameters.systemPrompt)
+    + (summary ? estimateTokens(summary.content) : 0)
+    + applySummary(thread, summary).reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+  return { used, budget: getHistoryBudget(parameters, contextTokens) }
+}
+
+export const needsCompaction = ({ used, budget }: ContextUsage) => budget > 0 && used >= budget * COMPACTION_THRESHOLD
+
+/**
+ * The oldest messages that can be folded into the next summary: not yet
+ * covered, not pinned and outside the most recent exchanges, up to what
+ * one summarization request can hold.
+ */
+export const selectForCompaction = (thread: Message[], summary: ContextSummary | null, budget: number) => {
+  const covered = new Set(summary?.coveredIds)
+  const selected: Message[] = []
+  let tokens = 0
+  for (const message of thread.slice(0, Math.max(thread.length - KEEP_RECENT_MESSAGES, 0))) {
+    if (covered.has(message.id) || message.pinned || isErrorMessage(message)) continue
+    const cost = estimateMessageTokens(message)
+    if (selected.length > 0 && tokens + cost > budget * SUMMARY_INPUT_SHARE) break
+    selected.push(message)
+    tokens += cost
+  }
+  return selected
+}
+
+// A new summary folds in the previous one, so only the latest is ever needed.
+// Messages go in as the model saw them, attached editor context included.
+export const buildSummaryRequest = (previous: string | undefined, messages: Message[]): ChatTurn[] => {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${toModelContent(message)}`)
+    .join('\n\n')
+  const content = previous
+    ? `Summary so far:\n${previous}\n\nConversation that follows it:\n${transcript}`
+    : `Conversation:\n${transcript}`
+  return [
+    { role: 'system', content: SUMMARY_INSTRUCTIONS },
+    { role: 'user', content }
+  ]
+}
@@ -0,0 +1,32 @@
+import { EditorCommand, EditorContext } from '../bridge'
+import { Message } from '../types'
+
+export const commandPrompts: Record<EditorCommand, string> = {
+  explain: 'Explain what this code does, step by step.',
+  refactor: 'Refactor this code to improve readability and maintainability without changing its behavior.',
+  tests: 'Write unit tests for this code covering the main paths and edge cases.'
+}
+
+export const describeContext = (context: EditorContext) => {
+  const name = context.fileName.split(/[\\/]/).pop() || context.fileName
+  if (context.isSelection && context.startLine !== undefined) {
+    return `${name}:${context.startLine}-${context.endLine ?? context.startLine}`
+  }
+  return name
+}
+
+// The fence must be longer than any backtick run inside the code
+const fenceFor = (code: string) => {
+  const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length))
+  return '`'.repeat(longest + 1)
+}
+
+export const formatContextBlock = (context: EditorContext) => {
+  const fence = fenceFor(context.content)
+  return `Context from \`${describeContext(context)}\`:\n\n${fence}${context.languageId}\n${context.content}\n${fence}`
+}
+
+// What the model sees for a message: attached editor context first, then the prompt
+export const toModelContent = (message: Message) => {
+  return message.context ? `${formatContextBlock(message.context)}\n\n${message.content}` : message.content
+}
@@ -0,0 +1,36 @@
+import { Conversation, GenerationParameters, Message, ProviderSettings } from '../types'
+import { defaultParameters } from '../settings'
+
+export const DEFAULT_TITLE = 'New Chat'
+
+const TITLE_MAX_LENGTH = 48
+
+export const createId = () => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export const createConversation = (
+  settings: ProviderSettings,
+  messages: Message[] = [],
+  parameters: GenerationParameters = defaultParameters,
+  presetId?: string
+): Conversation => {
+  const now = Date.now()
+  return {
+    id: createId(),
+    title: messages.length > 0 ? generateTitle(messages[0].content) : DEFAULT_TITLE,
+    messages,
+    activeLeafId: messages.length > 0 ? messages[messages.length - 1].id : null,
+    settings: { ...settings },
+    parameters: { ...parameters },
+    presetId,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export const generateTitle = (prompt: string) => {
+  const line = prompt.trim().split('\n')[0].replace(/\s+/g, ' ')
+  if (!line) return DEFAULT_TITLE
+  return line.length > TITLE_MAX_LENGTH ? `${line.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : line
+}
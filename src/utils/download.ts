@@ -0,0 +1,42 @@
+import { messageBus } from '../bridge'
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Webviews cannot trigger downloads, so inside VS Code the file is handed
+ * to the extension host which shows a native save dialog.
+ */
+export const saveFile = (filename: string, content: string, mimeType: string) => {
+  if (messageBus.isAvailable) {
+    messageBus.post({ type: 'saveFile', filename, content, mimeType })
+    return
+  }
+  downloadFile(filename, content, mimeType)
+}
+
+export const readFileAsText = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+export const readFileAsDataUrl = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,275 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { Citation, ContextSummary, Conversation, ImageAttachment, Message, ToolInvocation, ToolStatus } from '../types'
+import { EditorContext } from '../bridge'
+import { normalizeParameters, normalizeSettings } from '../settings'
+import { getProvider, providerList } from '../providers'
+import { createId } from './conversations'
+import { describeContext, toModelContent } from './context'
+import { attachmentUrl } from './images'
+import { getThread, normalizeTree } from './tree'
+import { expireToolInvocations } from '../tools'
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+const CONVERSATION_FILE_TYPE = 'neallm-conversation'
+// Version 2 added message branches (`parentId` and `activeLeafId`)
+const CONVERSATION_FILE_VERSION = 2
+
+const exportMimeTypes: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html'
+}
+
+const exportExtensions: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html'
+}
+
+const roleLabels: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant'
+}
+
+const formatTimestamp = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString()
+}
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const describeModel = (conversation: Conversation) => {
+  return `${getProvider(conversation.settings.provider).label} · ${conversation.settings.model}`
+}
+
+export const toMarkdown = (conversation: Conversation) => {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_${describeModel(conversation)} · exported ${formatTimestamp(Date.now())}_`,
+    ''
+  ]
+  for (const message of getThread(conversation.messages, conversation.activeLeafId)) {
+    lines.push(`## ${roleLabels[message.role]} · ${formatTimestamp(message.timestamp)}`, '')
+    for (const image of message.attachments || []) {
+      lines.push(`_Attached image: ${image.name}_`, '')
+    }
+    lines.push(toModelContent(message), '')
+    if (message.citations?.length) {
+      lines.push('**Sources**', '')
+      for (const citation of message.citations) {
+        lines.push(`- [${citation.index}] ${citation.documentName} (chunk ${citation.chunkIndex + 1})`)
+      }
+      lines.push('')
+    }
+  }
+  return lines.join('\n')
+}
+
+// Credentials and model reasoning are left out so exported files can be shared safely
+export const toJson = (conversation: Conversation) => {
+  const { apiKey: _apiKey, customHeaders: _customHeaders, ...settings } = conversation.settings
+  const messages = conversation.messages.map(({ reasoning: _reasoning, reasoningDuration: _reasoningDuration, ...message }) => message)
+  return JSON.stringify({
+    type: CONVERSATION_FILE_TYPE,
+    version: CONVERSATION_FILE_VERSION,
+    exportedAt: Date.now(),
+    conversation: { ...conversation, settings, messages }
+  }, null, 2)
+}
+
+const renderHtmlContent = (message: Message) => {
+  if (message.role === 'assistant') {
+    return renderToStaticMarkup(<ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>)
+  }
+  const context = message.context
+    ? `<details><summary>${escapeHtml(describeContext(message.context))}</summary><pre><code>${escapeHtml(message.context.content)}</code></pre></details>`
+    : ''
+  const images = (message.attachments || [])
+    .map(image => `<img src="${escapeHtml(attachmentUrl(image))}" alt="${escapeHtml(image.name)}" />`)
+    .join('')
+  return `${context}${images}<p>${escapeHtml(message.content)}</p>`
+}
+
+export const toHtml = (conversation: Conversation) => {
+  const body = getThread(conversation.messages, conversation.activeLeafId).map((message) => {
+    const content = renderHtmlContent(message)
+    return `<section class="message ${message.role}">
+  <header><strong>${roleLabels[message.role]}</strong> <time>${escapeHtml(formatTimestamp(message.timestamp))}</time></header>
+  <div class="content">${content}</div>
+</section>`
+  }).join('\n')
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+body{margin:0 auto;max-width:800px;padding:24px;background:#0d1117;color:#f0f6fc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;line-height:1.6}
+.meta{color:#8b949e;font-size:13px}
+.message{margin:16px 0;padding:12px 16px;border:1px solid #30363d;border-radius:12px;background:#161b22}
+.message.user{background:rgba(21,143,119,0.1);border-color:#158f77}
+.message header{font-size:12px;color:#8b949e;margin-bottom:8px}
+.message.user .content p{white-space:pre-line}
+pre{overflow-x:auto;padding:12px;background:#0d1117;border-radius:8px}
+code{font-family:'SF Mono',Monaco,Consolas,monospace;font-size:13px}
+table{border-collapse:collapse}
+img{max-width:240px;max-height:240px;margin:4px;border-radius:8px}
+th,td{padding:6px 10px;border:1px solid #30363d}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${escapeHtml(describeModel(conversation))} · exported ${escapeHtml(formatTimestamp(Date.now()))}</p>
+${body}
+</body>
+</html>
+`
+}
+
+const exporters: Record<ExportFormat, (conversation: Conversation) => string> = {
+  markdown: toMarkdown,
+  json: toJson,
+  html: toHtml
+}
+
+export const exportConversation = (conversation: Conversation, format: ExportFormat) => {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversation'
+  return {
+    filename: `${slug}.${exportExtensions[format]}`,
+    content: exporters[format](conversation),
+    mimeType: exportMimeTypes[format]
+  }
+}
+
+const isValidMessage = (message: any): message is Message => {
+  return typeof message?.id === 'string' &&
+    (message.role === 'user' || message.role === 'assistant') &&
+    typeof message.content === 'string' &&
+    typeof message.timestamp === 'number' &&
+    (message.parentId === undefined || message.parentId === null || typeof message.parentId === 'string')
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const optional = <T,>(value: unknown, isValid: (value: unknown) => value is T) => isValid(value) ? value : undefined
+
+const validItems = <T,>(items: unknown, isValid: (item: any) => boolean): T[] | undefined => {
+  return Array.isArray(items) ? items.filter(isValid) : undefined
+}
+
+const toolStatuses: ToolStatus[] = ['awaiting', 'running', 'done', 'error', 'denied']
+
+// The MIME type and data end up in a data URL, so only plain image types and base64 are accepted
+const isValidAttachment = (image: any) => {
+  return isString(image?.id) && isString(image.name) &&
+    isString(image.mimeType) && /^image\/[\w.+-]+$/.test(image.mimeType) &&
+    isString(image.data) && /^[A-Za-z0-9+/=]*$/.test(image.data)
+}
+
+const isValidCitation = (citation: any) => {
+  return isNumber(citation?.index) && isString(citation.documentId) && isString(citation.documentName) &&
+    isNumber(citation.chunkIndex) && isString(citation.text) && isNumber(citation.score)
+}
+
+const isValidToolInvocation = (invocation: any) => {
+  return isString(invocation?.id) && isString(invocation.name) && isRecord(invocation.arguments) &&
+    toolStatuses.includes(invocation.status) && (invocation.result === undefined || isString(invocation.result))
+}
+
+const isValidContext = (context: any): context is EditorContext => {
+  return isString(context?.fileName) && isString(context.languageId) && isString(context.content) &&
+    typeof context.isSelection === 'boolean' &&
+    (context.startLine === undefined || isNumber(context.startLine)) &&
+    (context.endLine === undefined || isNumber(context.endLine))
+}
+
+const isValidSummary = (summary: any) => {
+  return isString(summary?.id) && isString(summary.content) && isString(summary.model) && isNumber(summary.createdAt) &&
+    Array.isArray(summary.coveredIds) && summary.coveredIds.every(isString)
+}
+
+// Optional fields without the expected shape are dropped instead of failing the whole import
+const sanitizeMessage = (message: Message): Message => ({
+  id: message.id,
+  parentId: message.parentId,
+  role: message.role,
+  content: message.content,
+  timestamp: message.timestamp,
+  context: optional(message.context, isValidContext),
+  attachments: validItems<ImageAttachment>(message.attachments, isValidAttachment),
+  citations: validItems<Citation>(message.citations, isValidCitation),
+  model: optional(message.model, isString),
+  provider: providerList.some(provider => provider.id === message.provider) ? message.provider : undefined,
+  metrics: isRecord(message.metrics)
+    ? Object.fromEntries(Object.entries(message.metrics).filter(([, value]) => isNumber(value)))
+    : undefined,
+  toolInvocations: validItems<ToolInvocation>(message.toolInvocations, isValidToolInvocation),
+  arenaId: optional(message.arenaId, isString),
+  arenaWinner: optional(message.arenaWinner, isBoolean),
+  baseUrl: optional(message.baseUrl, isString),
+  queued: optional(message.queued, isBoolean),
+  outputSchema: optional(message.outputSchema, isString),
+  pinned: optional(message.pinned, isBoolean),
+  reasoning: optional(message.reasoning, isString),
+  reasoningDuration: optional(message.reasoningDuration, isNumber)
+})
+
+/**
+ * Restores a conversation from a file produced by `toJson`.
+ * Throws a descriptive error when the file does not match the schema.
+ */
+export const parseConversationJson = (text: string): Conversation => {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new Error('File is not valid JSON')
+  }
+  if (data?.type !== CONVERSATION_FILE_TYPE) {
+    throw new Error('Not a NeaLLM conversation export')
+  }
+  if (typeof data.version !== 'number' || data.version > CONVERSATION_FILE_VERSION) {
+    throw new Error(`Unsupported export version: ${data.version}`)
+  }
+  const conversation = data.conversation
+  if (!conversation || !Array.isArray(conversation.messages)) {
+    throw new Error('Export is missing its messages')
+  }
+  const invalidIndex = conversation.messages.findIndex((message: any) => !isValidMessage(message))
+  if (invalidIndex !== -1) {
+    throw new Error(`Message ${invalidIndex + 1} is malformed`)
+  }
+  const now = Date.now()
+  return normalizeTree({
+    ...conversation,
+    id: createId(),
+    messages: conversation.messages.map(sanitizeMessage).map(expireToolInvocations),
+    presetId: optional(conversation.presetId, isString),
+    useKnowledge: optional(conversation.useKnowledge, isBoolean),
+    useTools: optional(conversation.useTools, isBoolean),
+    structuredOutput: isString(conversation.structuredOutput?.schema) ? { schema: conversation.structuredOutput.schema } : undefined,
+    summaries: validItems<ContextSummary>(conversation.summaries, isValidSummary),
+    title: typeof conversation.title === 'string' && conversation.title.trim() ? conversation.title : 'Imported Chat',
+    settings: normalizeSettings(conversation.settings),
+    parameters: normalizeParameters(conversation.parameters),
+    createdAt: typeof conversation.createdAt === 'number' ? conversation.createdAt : now,
+    updatedAt: now,
+    activeLeafId: typeof conversation.activeLeafId === 'string' ? conversation.activeLeafId : null
+  })
+}
@@ -0,0 +1,8 @@
+import type { Nodes } from 'hast'
+
+// Collects the plain text of a hast node rendered by react-markdown
+export const hastToText = (node: Nodes | undefined): string => {
+  if (!node) return ''
+  if (node.type === 'text') return node.value
+  return 'children' in node ? node.children.map(hastToText).join('') : ''
+}
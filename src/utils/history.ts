@@ -0,0 +1,95 @@
+import { Message, ChatTurn, GenerationParameters } from '../types'
+import { toModelContent } from './context'
+
+export const ERROR_PREFIX = '❌ **Error**'
+
+// Tokens kept free for the model's reply when fitting history into the context window
+export const RESPONSE_TOKEN_RESERVE = 512
+
+const CHARS_PER_TOKEN = 4
+
+// Rough cost of one image for vision encoders such as LLaVA's CLIP projector
+const IMAGE_TOKEN_ESTIMATE = 768
+
+export const estimateTokens = (text: string) => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export const isErrorMessage = (message: Message) => {
+  return message.role === 'assistant' && message.content.startsWith(ERROR_PREFIX)
+}
+
+// A reply that used tools expands to the call, one result per tool and then the answer itself
+const toTurns = (message: Message): ChatTurn[] => {
+  const { role, attachments = [], toolInvocations = [] } = message
+  const content = toModelContent(message)
+  const images = attachments.map(({ mimeType, data }) => ({ mimeType, data }))
+  const turn: ChatTurn = { role, content, ...(images.length > 0 && { images }) }
+  const finished = toolInvocations.filter(invocation => invocation.result !== undefined)
+  if (finished.length === 0) return [turn]
+  return [
+    { role: 'assistant', content: '', toolCalls: finished.map(({ id, name, arguments: args }) => ({ id, name, arguments: args })) },
+    ...finished.map((invocation): ChatTurn => ({ role: 'tool', content: invocation.result || '', toolCallId: invocation.id, toolName: invocation.name })),
+    ...(content.trim() ? [turn] : [])
+  ]
+}
+
+const estimateTurnTokens = (turn: ChatTurn) => {
+  return estimateTokens(turn.content)
+    + (turn.images?.length || 0) * IMAGE_TOKEN_ESTIMATE
+    + (turn.toolCalls ? estimateTokens(JSON.stringify(turn.toolCalls)) : 0)
+}
+
+export const estimateMessageTokens = (message: Message) => {
+  return isErrorMessage(message) ? 0 : toTurns(message).reduce((sum, turn) => sum + estimateTurnTokens(turn), 0)
+}
+
+/**
+ * Converts the chat into the turns sent to the model, newest last.
+ * Error entries are skipped and the oldest turns are dropped once the
+ * estimated token count would exceed `maxTokens`. The latest turn is
+ * always kept, trimmed from the front if it alone is over budget.
+ */
+export const buildHistory = (messages: Message[], maxTokens: number): ChatTurn[] => {
+  const turns: ChatTurn[] = []
+  let used = 0
+  const candidates = messages.filter(m => !isErrorMessage(m) && (m.content.trim() || m.attachments?.length || m.toolInvocations?.length))
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const group = toTurns(candidates[i])
+    const tokens = group.reduce((sum, turn) => sum + estimateTurnTokens(turn), 0)
+    if (used + tokens > maxTokens) {
+      if (turns.length === 0) {
+        const latest = group[group.length - 1]
+        turns.unshift({ ...latest, content: latest.content.slice(-Math.max(maxTokens, 1) * CHARS_PER_TOKEN) })
+      }
+      break
+    }
+    turns.unshift(...group)
+    used += tokens
+  }
+  while (turns.length > 1 && turns[0].role !== 'user') {
+    turns.shift()
+  }
+  return turns
+}
+
+// Room for the prompt once the reply's share of the context window is set aside
+export const getHistoryBudget = (parameters: GenerationParameters, contextTokens: number) => {
+  return Math.max((parameters.numCtx || contextTokens) - (parameters.maxTokens || RESPONSE_TOKEN_RESERVE), 0)
+}
+
+/**
+ * Builds the full message list for a request: the system prompt first,
+ * followed by the summary of compacted messages if there is one, then as
+ * much history as fits in the context window after reserving room for
+ * the reply.
+ */
+export const buildRequestMessages = (messages: Message[], parameters: GenerationParameters, contextTokens: number, summary?: string): ChatTurn[] => {
+  const systemPrompt = [
+    parameters.systemPrompt.trim(),
+    summary ? `Summary of the earlier part of this conversation:\n${summary}` : ''
+  ].filter(Boolean).join('\n\n')
+  const budget = Math.max(getHistoryBudget(parameters, contextTokens) - estimateTokens(systemPrompt), 0)
+  const history = buildHistory(messages, budget)
+  return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...history] : history
+}
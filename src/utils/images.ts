@@ -0,0 +1,29 @@
+import { ImageAttachment } from '../types'
+import { createId } from './conversations'
+import { readFileAsDataUrl } from './download'
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+export const isImageFile = (file: File) => {
+  return file.type.startsWith('image/')
+}
+
+export const fileToAttachment = async (file: File): Promise<ImageAttachment> => {
+  if (!isImageFile(file)) {
+    throw new Error(`${file.name || 'File'} is not an image`)
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`${file.name || 'Image'} is larger than 10 MB`)
+  }
+  const dataUrl = await readFileAsDataUrl(file)
+  return {
+    id: createId(),
+    name: file.name || 'pasted-image',
+    mimeType: file.type,
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1)
+  }
+}
+
+export const attachmentUrl = (attachment: ImageAttachment) => {
+  return `data:${attachment.mimeType};base64,${attachment.data}`
+}
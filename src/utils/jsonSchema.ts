@@ -0,0 +1,202 @@
+export interface SchemaError {
+  // `$` for the root, then `.key` and `[index]` steps
+  path: string
+  message: string
+}
+
+type Schema = boolean | Record<string, any>
+
+const typeOf = (value: unknown) => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeOf(value) === 'object'
+
+// Own keys only, so names like `toString` are not found on Object.prototype
+const hasKey = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key)
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every(key => hasKey(b, key) && isEqual(a[key], b[key]))
+  }
+  return false
+}
+
+export const childPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+// Only local references (`#/$defs/...`, `#/definitions/...`) are followed
+const resolveRef = (root: Schema, ref: string): Schema | undefined => {
+  if (!ref.startsWith('#')) return undefined
+  return ref.slice(1).split('/').filter(Boolean).reduce<any>(
+    (node, part) => {
+      const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~')
+      return node !== null && typeof node === 'object' && hasKey(node, key) ? node[key] : undefined
+    },
+    root
+  )
+}
+
+const describe = (value: unknown) => JSON.stringify(value)
+
+// `active` holds the `$ref`s being followed at each path, so a cycle that does not descend into the value stops
+const validateNode = (value: unknown, schema: Schema | undefined, path: string, root: Schema, errors: SchemaError[], active: Set<string>) => {
+  if (schema === undefined || schema === true) return
+  if (schema === false) {
+    errors.push({ path, message: 'is not allowed' })
+    return
+  }
+  const fail = (message: string) => errors.push({ path, message })
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref)
+    const key = `${path} ${schema.$ref}`
+    if (target === undefined) {
+      fail(`references unknown schema ${schema.$ref}`)
+    } else if (active.has(key)) {
+      fail(`has a circular reference ${schema.$ref} in the schema`)
+    } else {
+      active.add(key)
+      validateNode(value, target, path, root, errors, active)
+      active.delete(key)
+    }
+  }
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`should be ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+    fail(`should be one of ${schema.enum.map(describe).join(', ')}`)
+  }
+  if (hasKey(schema, 'const') && !isEqual(schema.const, value)) {
+    fail(`should be ${describe(schema.const)}`)
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`should be at least ${schema.minimum}`)
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`should be at most ${schema.maximum}`)
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail(`should be greater than ${schema.exclusiveMinimum}`)
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail(`should be less than ${schema.exclusiveMaximum}`)
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 && !Number.isInteger(value / schema.multipleOf)) fail(`should be a multiple of ${schema.multipleOf}`)
+  }
+
+  if (typeof value === 'string') {
+    // Length in code points, as JSON Schema counts characters
+    const length = Array.from(value).length
+    if (typeof schema.minLength === 'number' && length < schema.minLength) fail(`should have at least ${schema.minLength} characters`)
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) fail(`should have at most ${schema.maxLength} characters`)
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) fail(`should match ${schema.pattern}`)
+      } catch (error) {
+        fail(`has an invalid pattern ${schema.pattern} in the schema`)
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`should have at least ${schema.minItems} items`)
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`should have at most ${schema.maxItems} items`)
+    if (schema.uniqueItems === true && value.some((item, i) => value.findIndex(other => isEqual(other, item)) !== i)) {
+      fail('should not contain duplicate items')
+    }
+    // `prefixItems` (2020-12) and array-form `items` (draft 7) describe a tuple
+    const tuple: Schema[] | undefined = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : undefined
+    const rest: Schema | undefined = tuple ? (Array.isArray(schema.items) ? schema.additionalItems : schema.items) : schema.items
+    value.forEach((item, i) => {
+      validateNode(item, tuple && i < tuple.length ? tuple[i] : rest, childPath(path, i), root, errors, active)
+    })
+  }
+
+  if (isObject(value)) {
+    const properties: Record<string, Schema> = isObject(schema.properties) ? schema.properties as Record<string, Schema> : {}
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasKey(value, key)) errors.push({ path: childPath(path, key), message: 'is required' })
+    }
+    const keys = Object.keys(value)
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) fail(`should have at least ${schema.minProperties} properties`)
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) fail(`should have at most ${schema.maxProperties} properties`)
+    for (const key of keys) {
+      if (hasKey(properties, key)) {
+        validateNode(value[key], properties[key], childPath(path, key), root, errors, active)
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'is not an allowed property' })
+      } else if (isObject(schema.additionalProperties)) {
+        validateNode(value[key], schema.additionalProperties, childPath(path, key), root, errors, active)
+      }
+    }
+  }
+
+  const matches = (candidate: Schema) => validateSchema(value, candidate, root, path, active).length === 0
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((part: Schema) => validateNode(value, part, path, root, errors, active))
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+    fail('does not match any of the allowed shapes')
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const count = schema.oneOf.filter(matches).length
+    if (count !== 1) fail(count === 0 ? 'does not match any of the allowed shapes' : 'matches more than one of the exclusive shapes')
+  }
+  if (schema.not !== undefined && matches(schema.not)) {
+    fail('matches a shape that is not allowed')
+  }
+}
+
+const validateSchema = (value: unknown, schema: Schema, root: Schema, path = '$', active = new Set<string>()) => {
+  const errors: SchemaError[] = []
+  validateNode(value, schema, path, root, errors, active)
+  return errors
+}
+
+/**
+ * Checks `value` against a JSON Schema. Covers the keywords models are
+ * usually given (types, properties, items, enums, bounds, combinators and
+ * local `$ref`s); `format` and remote references are ignored.
+ */
+export const validateJson = (value: unknown, schema: Schema) => validateSchema(value, schema, schema)
+
+export const parseSchema = (text: string): { schema?: Record<string, unknown>, error?: string } => {
+  if (!text.trim()) return {}
+  try {
+    const schema = JSON.parse(text)
+    return isObject(schema) ? { schema } : { error: 'The schema must be a JSON object' }
+  } catch (error) {
+    return { error: `The schema is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` }
+  }
+}
+
+// Models often wrap JSON in a Markdown fence even when asked not to
+export const parseJsonReply = (content: string): { value?: unknown, error?: string } => {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/)
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : content) }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'parse error' }
+  }
+}
+
+export const buildRetryFeedback = (parseError: string | undefined, errors: SchemaError[]) => {
+  const problems = parseError
+    ? `It is not valid JSON: ${parseError}.`
+    : `It does not match the JSON Schema:\n${errors.map(error => `- ${error.path} ${error.message}`).join('\n')}`
+  return `Your previous reply failed validation. ${problems}\n\nReply again with only the corrected JSON, no explanations or Markdown.`
+}
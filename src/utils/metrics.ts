@@ -0,0 +1,84 @@
+import { Message, ResponseMetrics } from '../types'
+import { ChatUsage } from '../providers'
+import { formatDuration } from './format'
+
+export interface ResponseTiming {
+  startedAt: number
+  firstTokenAt: number | null
+  finishedAt: number
+}
+
+export interface ModelMetricsSummary {
+  model: string
+  responses: number
+  averageTokensPerSecond?: number
+  averageTimeToFirstToken?: number
+  promptTokens: number
+  completionTokens: number
+  arenaWins: number
+}
+
+const average = (values: (number | undefined)[]) => {
+  const known = values.filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : undefined
+}
+
+/**
+ * Combines what the server reported with what we measured in the client.
+ * Server-side eval time is preferred for tokens/sec because the client
+ * clock also includes network and rendering overhead.
+ */
+export const buildMetrics = (usage: ChatUsage | undefined, timing: ResponseTiming): ResponseMetrics | undefined => {
+  const timeToFirstToken = timing.firstTokenAt !== null ? timing.firstTokenAt - timing.startedAt : undefined
+  const completionTokens = usage?.completionTokens
+  let tokensPerSecond: number | undefined
+  if (completionTokens && usage?.evalDuration) {
+    tokensPerSecond = completionTokens / (usage.evalDuration / 1000)
+  } else if (completionTokens && timing.firstTokenAt !== null && timing.finishedAt > timing.firstTokenAt) {
+    tokensPerSecond = completionTokens / ((timing.finishedAt - timing.firstTokenAt) / 1000)
+  }
+  const metrics: ResponseMetrics = {
+    promptTokens: usage?.promptTokens,
+    completionTokens,
+    tokensPerSecond,
+    timeToFirstToken,
+    loadDuration: usage?.loadDuration,
+    totalDuration: usage?.totalDuration ?? timing.finishedAt - timing.startedAt
+  }
+  return Object.values(metrics).some(value => value !== undefined) ? metrics : undefined
+}
+
+// Short labels for the message meta row, most useful first
+export const describeMetrics = (metrics: ResponseMetrics) => {
+  const parts: string[] = []
+  if (metrics.tokensPerSecond !== undefined) parts.push(`${metrics.tokensPerSecond.toFixed(1)} tok/s`)
+  if (metrics.timeToFirstToken !== undefined) parts.push(`TTFT ${formatDuration(metrics.timeToFirstToken)}`)
+  if (metrics.promptTokens !== undefined || metrics.completionTokens !== undefined) {
+    parts.push(`${metrics.promptTokens ?? '?'} → ${metrics.completionTokens ?? '?'} tokens`)
+  }
+  if (metrics.loadDuration) parts.push(`load ${formatDuration(metrics.loadDuration)}`)
+  return parts
+}
+
+// Per-model averages across every branch of a conversation
+export const summarizeMetrics = (messages: Message[]): ModelMetricsSummary[] => {
+  const byModel = new Map<string, ResponseMetrics[]>()
+  const wins = new Map<string, number>()
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !message.metrics) continue
+    const model = message.model || 'unknown'
+    byModel.set(model, [...(byModel.get(model) || []), message.metrics])
+    if (message.arenaWinner) {
+      wins.set(model, (wins.get(model) || 0) + 1)
+    }
+  }
+  return Array.from(byModel, ([model, entries]) => ({
+    model,
+    responses: entries.length,
+    arenaWins: wins.get(model) || 0,
+    averageTokensPerSecond: average(entries.map(m => m.tokensPerSecond)),
+    averageTimeToFirstToken: average(entries.map(m => m.timeToFirstToken)),
+    promptTokens: entries.reduce((sum, m) => sum + (m.promptTokens || 0), 0),
+    completionTokens: entries.reduce((sum, m) => sum + (m.completionTokens || 0), 0)
+  }))
+}
@@ -0,0 +1,34 @@
+import { GenerationParameters, ParameterPreset } from '../types'
+import { normalizeParameters } from '../settings'
+import { createId } from './conversations'
+
+const PRESET_FILE_TYPE = 'neallm-presets'
+const PRESET_FILE_VERSION = 1
+
+export const createPreset = (name: string, parameters: GenerationParameters): ParameterPreset => ({
+  id: createId(),
+  name,
+  parameters: { ...parameters }
+})
+
+export const serializePresets = (presets: ParameterPreset[]) => {
+  return JSON.stringify({
+    type: PRESET_FILE_TYPE,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, parameters }) => ({ name, parameters }))
+  }, null, 2)
+}
+
+/**
+ * Parses a file produced by `serializePresets`. Imported presets always
+ * get fresh ids so they never collide with existing ones.
+ */
+export const parsePresets = (text: string): ParameterPreset[] => {
+  const data = JSON.parse(text)
+  if (data?.type !== PRESET_FILE_TYPE || !Array.isArray(data.presets)) {
+    throw new Error('Not a NeaLLM preset file')
+  }
+  return data.presets
+    .filter((preset: any) => typeof preset?.name === 'string' && preset.name.trim())
+    .map((preset: any) => createPreset(preset.name.trim(), normalizeParameters(preset.parameters)))
+}
@@ -0,0 +1,94 @@
+import { ProviderSettings, ServerProfile } from '../types'
+import { getProvider, providers } from '../providers'
+import { diagnoseFailure } from '../providers/diagnostics'
+import { defaultSettings } from '../settings'
+import { createId } from './conversations'
+import { formatDuration } from './format'
+
+export type ProfileStatus = 'checking' | 'online' | 'offline'
+
+export interface ProfileHealth {
+  status: ProfileStatus
+  checkedAt?: number
+  // Round trip of the health request while online
+  latency?: number
+  // Title of the diagnosis while offline
+  error?: string
+}
+
+// Fields that decide which server a request goes to and how it authenticates
+const CONNECTION_FIELDS: (keyof ProviderSettings)[] = ['provider', 'baseUrl', 'apiKey', 'customHeaders', 'timeout']
+
+export const isConnectionChange = (changes: Partial<ProviderSettings>) => {
+  return CONNECTION_FIELDS.some(field => field in changes)
+}
+
+export const createProfile = (fields: Omit<ServerProfile, 'id'>): ServerProfile => ({
+  id: createId(),
+  ...fields
+})
+
+export const profileFromSettings = (name: string, settings: ProviderSettings): ServerProfile => createProfile({
+  name,
+  provider: settings.provider,
+  baseUrl: settings.baseUrl,
+  apiKey: settings.apiKey,
+  customHeaders: settings.customHeaders,
+  defaultModel: settings.model,
+  timeout: settings.timeout
+})
+
+// The conversation keeps its model when the profile names none
+export const applyProfile = (settings: ProviderSettings, profile: ServerProfile): ProviderSettings => ({
+  ...settings,
+  provider: profile.provider,
+  baseUrl: profile.baseUrl,
+  apiKey: profile.apiKey,
+  customHeaders: profile.customHeaders,
+  timeout: profile.timeout,
+  model: profile.defaultModel || settings.model,
+  profileId: profile.id
+})
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined
+
+export const normalizeProfiles = (profiles?: unknown): ServerProfile[] => {
+  if (!Array.isArray(profiles)) return []
+  return profiles
+    .filter((profile: any) => profile && typeof profile.name === 'string' && profile.provider in providers)
+    .map((profile: any) => ({
+      id: typeof profile.id === 'string' ? profile.id : createId(),
+      name: profile.name,
+      provider: profile.provider,
+      baseUrl: typeof profile.baseUrl === 'string' ? profile.baseUrl : providers[profile.provider as ServerProfile['provider']].defaultBaseUrl,
+      apiKey: optionalString(profile.apiKey),
+      customHeaders: optionalString(profile.customHeaders),
+      defaultModel: typeof profile.defaultModel === 'string' ? profile.defaultModel : '',
+      timeout: typeof profile.timeout === 'number' && profile.timeout > 0 ? profile.timeout : undefined
+    }))
+}
+
+export const describeHealth = (health?: ProfileHealth) => {
+  if (!health) return 'Not checked'
+  switch (health.status) {
+    case 'checking':
+      return 'Checking...'
+    case 'online':
+      return health.latency !== undefined ? `Online · ${formatDuration(health.latency)}` : 'Online'
+    case 'offline':
+    default:
+      return health.error || 'Offline'
+  }
+}
+
+export const checkProfile = async (profile: ServerProfile): Promise<ProfileHealth> => {
+  const settings = applyProfile(defaultSettings, profile)
+  const startedAt = Date.now()
+  try {
+    await getProvider(profile.provider).healthCheck(settings)
+    return { status: 'online', checkedAt: Date.now(), latency: Date.now() - startedAt }
+  } catch (error) {
+    const diagnosis = await diagnoseFailure(error, settings)
+    return { status: 'offline', checkedAt: Date.now(), error: diagnosis.title }
+  }
+}
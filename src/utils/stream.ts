@@ -0,0 +1,56 @@
+const readLines = async function* (response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Response body is not readable')
+  }
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        if (line.trim()) yield line.trim()
+      }
+    }
+    buffer += decoder.decode()
+    if (buffer.trim()) yield buffer.trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Ollama streams one JSON object per line
+export const readNdjson = async function* <T = any>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    yield JSON.parse(line) as T
+  }
+}
+
+// OpenAI-compatible servers stream Server-Sent Events terminated by `data: [DONE]`
+export const readSse = async function* <T = any>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue
+    const data = line.slice(5).trim()
+    if (data === '[DONE]') return
+    yield JSON.parse(data) as T
+  }
+}
+
+/**
+ * Calls `onTimeout` when `reset` has not been called for the given time
+ * (`ms` unless the reset passes its own). Used to give up on a generation
+ * whose server went silent without closing the stream.
+ */
+export const createWatchdog = (ms: number, onTimeout: () => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const stop = () => clearTimeout(timer)
+  const reset = (timeout = ms) => {
+    stop()
+    timer = setTimeout(onTimeout, timeout)
+  }
+  return { reset, stop }
+}
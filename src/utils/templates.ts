@@ -0,0 +1,73 @@
+import { PromptTemplate } from '../types'
+import { createId } from './conversations'
+
+const TEMPLATE_FILE_TYPE = 'neallm-templates'
+const TEMPLATE_FILE_VERSION = 1
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g
+
+// Lowercase letters, digits and dashes, so a command is typed without thinking about it
+export const toCommandName = (text: string) => {
+  return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+export const createTemplate = ({ name, command, description, content }: Pick<PromptTemplate, 'name' | 'command' | 'description' | 'content'>): PromptTemplate => ({
+  id: createId(),
+  name,
+  command: toCommandName(command || name),
+  description: description || undefined,
+  content
+})
+
+// Variable names in order of first appearance
+export const extractVariables = (content: string) => {
+  return Array.from(new Set(Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1])))
+}
+
+export const fillTemplate = (content: string, values: Record<string, string>) => {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder)
+}
+
+export const serializeTemplates = (templates: PromptTemplate[]) => {
+  return JSON.stringify({
+    type: TEMPLATE_FILE_TYPE,
+    version: TEMPLATE_FILE_VERSION,
+    templates: templates.map(({ name, command, description, content }) => ({ name, command, description, content }))
+  }, null, 2)
+}
+
+const isTemplateLike = (template: any) => {
+  return typeof template?.name === 'string' && template.name.trim() && typeof template.content === 'string'
+}
+
+/**
+ * Parses a file produced by `serializeTemplates`. Like presets, imported
+ * templates get fresh ids so a shared pack can be imported more than once.
+ */
+export const parseTemplates = (text: string): PromptTemplate[] => {
+  const data = JSON.parse(text)
+  if (data?.type !== TEMPLATE_FILE_TYPE || !Array.isArray(data.templates)) {
+    throw new Error('Not a NeaLLM template file')
+  }
+  return data.templates
+    .filter(isTemplateLike)
+    .map((template: any) => createTemplate({
+      name: template.name.trim(),
+      command: typeof template.command === 'string' ? template.command : '',
+      description: typeof template.description === 'string' ? template.description : undefined,
+      content: template.content
+    }))
+}
+
+export const normalizeTemplates = (templates?: unknown): PromptTemplate[] => {
+  if (!Array.isArray(templates)) return []
+  return templates
+    .filter(isTemplateLike)
+    .map((template: any) => ({
+      id: typeof template.id === 'string' ? template.id : createId(),
+      name: template.name,
+      command: toCommandName(typeof template.command === 'string' && template.command ? template.command : template.name),
+      description: typeof template.description === 'string' ? template.description : undefined,
+      content: template.content
+    }))
+}
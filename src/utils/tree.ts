@@ -0,0 +1,66 @@
+import { Conversation, Message } from '../types'
+
+// Key used in the children index for messages without a parent
+export const ROOT_KEY = '__root__'
+
+export type ChildrenIndex = Map<string, Message[]>
+
+export const buildChildrenIndex = (messages: Message[]): ChildrenIndex => {
+  const index: ChildrenIndex = new Map()
+  for (const message of messages) {
+    const key = message.parentId ?? ROOT_KEY
+    const siblings = index.get(key)
+    if (siblings) {
+      siblings.push(message)
+    } else {
+      index.set(key, [message])
+    }
+  }
+  for (const siblings of index.values()) {
+    siblings.sort((a, b) => a.timestamp - b.timestamp)
+  }
+  return index
+}
+
+// The visible conversation: the path from the root down to `leafId`
+export const getThread = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]))
+  const thread: Message[] = []
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current) {
+    thread.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return thread
+}
+
+export const getSiblings = (index: ChildrenIndex, message: Message) => {
+  return index.get(message.parentId ?? ROOT_KEY) || [message]
+}
+
+// Follows the most recent child at every level, so switching to a branch shows its latest state
+export const findLatestLeaf = (index: ChildrenIndex, messageId: string) => {
+  let currentId = messageId
+  let children = index.get(currentId)
+  while (children && children.length > 0) {
+    currentId = children[children.length - 1].id
+    children = index.get(currentId)
+  }
+  return currentId
+}
+
+/**
+ * Turns a flat list from before branching existed into a single chain and
+ * makes sure the active leaf points at an existing message.
+ */
+export const normalizeTree = <T extends Pick<Conversation, 'messages' | 'activeLeafId'>>(conversation: T): T => {
+  const isLinked = conversation.messages.every(m => m.parentId !== undefined)
+  const messages = isLinked
+    ? conversation.messages
+    : conversation.messages.map((message, i, all) => ({ ...message, parentId: i === 0 ? null : all[i - 1].id }))
+  const leafExists = messages.some(m => m.id === conversation.activeLeafId)
+  const activeLeafId = leafExists
+    ? conversation.activeLeafId
+    : messages.length > 0 ? findLatestLeaf(buildChildrenIndex(messages), messages[0].id) : null
+  return { ...conversation, messages, activeLeafId }
+}
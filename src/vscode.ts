@@ -0,0 +1,12 @@
+declare global {
+  interface Window {
+    acquireVsCodeApi: () => {
+      postMessage: (message: any) => void
+      setState: (state: any) => void
+      getState: () => any
+    }
+  }
+}
+
+// `acquireVsCodeApi` may only be called once per webview, so the handle is shared
+export const vscode = typeof window !== 'undefined' && window.acquireVsCodeApi ? window.acquireVsCodeApi() : null